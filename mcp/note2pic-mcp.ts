@@ -9,8 +9,9 @@ import {
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import path from "node:path";
-import config from "../src/config";
-import { renderAll } from "../src/render";
+import config, { type OverlayConfig } from "../src/config";
+import { renderAll, renderMarkdown, resolveRenderConfig, type RenderRequest, type RenderResult } from "../src/render";
+import { markdownToRequest } from "../src/markdown";
 
 const PROJECT_ROOT = path.resolve(__dirname, "../../");
 export const outputBase = path.isAbsolute(config.output.directory)
@@ -38,34 +39,53 @@ const TitleSchema = z.object({
 
 const PageSchema = z.object({
   text: z.string().describe(
-    "本页正文内容。建议每行≤20个汉字，工具会在合适位置自动换行；可使用内联样式标记关键词（示例：<c:#ff4d4f>重点词</c> 或 <s:70>加大字号</s>）。"
+    "本页正文内容。建议每行≤20个汉字，工具会在合适位置自动换行；可使用内联样式标记关键词（示例：<c:#ff4d4f>重点词</c> 或 <s:70>加大字号</s>），另支持 <b>粗体</b>、<i>斜体</i>、<u>下划线</u>、<del>删除线</del>、<bg:#fff3a0>荧光笔底色</bg>、<f:yozai-medium>切换字体</f>，<img:名称> 插入 images 中的图片（独占一段，宽度撑满文本框），字面量尖括号写作 \\<。"
   ),
 }).describe("正文段落：按行展示（需要换行，每行≤20汉字），内容最好在6-10行之间。支持简单内联样式以增强可读性。");
 
+const EndingSchema = z.object({
+  cta: z.string().optional().describe("结尾引导语，如：关注我，获取更多育儿干货"),
+  handle: z.string().optional().describe("账号名，如 @小红薯"),
+  date: z.string().optional().describe("日期，写 {date} 自动填入当天日期；留空不显示"),
+}).describe("结尾页文字，支持与正文相同的内联样式");
+
 const MinimalRenderInputSchema = z.object({
     titleDir: z.string().min(1, "titleDir 不能为空,会作为输出图片的目录名,不要有空格"),
     templateName: z.string().optional().default("default"),
     title: TitleSchema.strict(),
     pages: z.array(PageSchema).min(1).max(7),
+    ending: EndingSchema.strict().optional(),
+    qrcode: z.string().optional().describe("结尾页二维码内容（链接或任意文本），在本地生成"),
+    handle: z.string().optional().describe("账号名，用于页眉页脚、水印及结尾页中的 {handle}"),
+    images: z.record(z.string()).optional().describe("正文插图：key 为名称（在正文中用 <img:名称> 引用），value 为图片的 base64 或 data URL"),
+    coverPhoto: z.string().optional().describe("封面背景照片的 base64 或 data URL，替代模板封面底图；标题背后自动加渐变遮罩以保证文字清晰"),
     disableOverlay: z.boolean().optional(),
+    sizes: z.array(z.string()).optional().describe(`同时输出的尺寸预设：${Object.keys(config.sizes).join("、")}；每个尺寸放在单独的子目录`),
+    seed: z.union([z.number().int(), z.string()]).optional().describe("随机种子：贴纸的选取与摆放由其决定，传入上次返回的 seed 可复现同一版式"),
+    theme: z.string().optional().describe(`配色主题：${Object.keys(config.themes).join("、")}（模板也可自带主题）；正文中可用 <c:accent> 等角色名代替色值`),
 }).strict();
 
-//advanced schema
-const FontDefSchema = z.object({
-    path: z.string().min(1, "字体文件路径必填"),
-    family: z.string().min(1, "font family 必填"),
-    name: z.string().min(1, "font name 必填"),
+const MarkdownRenderInputSchema = z.object({
+    markdown: z.string().min(1, "markdown 不能为空").describe(
+      "整篇 Markdown 笔记。开头可用 --- 包围的 YAML front matter 写 titleDir、template、theme、title（三段标题的数组）、ending、handle、qrcode；" +
+      "# 标题、**粗体**、*斜体*、列表、> 引用、表格会转为对应样式；单独一行 --- 分页，不写时按正文区域自动分页；![图注](名称) 引用 images 中的图片。"
+    ),
+    titleDir: z.string().optional().describe("输出目录名，优先于 front matter 中的 titleDir"),
+    templateName: z.string().optional(),
+    theme: z.string().optional().describe(`配色主题：${Object.keys(config.themes).join("、")}`),
+    images: z.record(z.string()).optional().describe("正文插图：key 为名称，value 为图片的 base64 或 data URL"),
+    sizes: z.array(z.string()).optional(),
+    seed: z.union([z.number().int(), z.string()]).optional(),
 }).strict();
 
+//advanced schema
 const OverlayItemSchema = z.object({
-    file: z.string().min(1, "overlay 文件路径必填"),
-    x: z.number().optional(),
+    file: z.string().min(1, "overlay 文件路径必填").describe("模板 assets 中的贴纸文件名"),
+    x: z.number().optional().describe("左上角 x，与 y 同时给出时固定位置，否则随机摆放"),
     y: z.number().optional(),
-    w: z.number().optional(),
-    h: z.number().optional(),
+    scale: z.number().positive().optional().describe("相对贴纸原图的缩放，不填时随机"),
     opacity: z.number().min(0).max(1).optional(),
-    rotate: z.number().optional(),
-    zIndex: z.number().optional(),
+    rotate: z.number().optional().describe("旋转角度（度）"),
 }).strict();
 
 const AdvancedTitleSchema = z.object({
@@ -88,7 +108,7 @@ const AdvancedPageSchema = z.object({
         fontFamily: z.string().optional(),
         textAlign: z.enum(["left", "center", "right"]).optional(),
       }).optional(),
-    overlay: z.array(OverlayItemSchema).optional(),
+    overlay: z.array(OverlayItemSchema).optional().describe("本页贴纸，优先于 overlay.pages"),
 }).strict();
 
 const OutputFormatEnum = z.enum(["png", "jpg", "jpeg", "webp"]);
@@ -103,22 +123,23 @@ const AdvancedRenderInputSchema = z.object({
     disableOverlay: z.boolean().optional(),
     overlay: z.object({
         cover: z.array(OverlayItemSchema).optional(),
-        pages: z.array(OverlayItemSchema).optional(),
+        pages: z.array(OverlayItemSchema).optional().describe("没有单独写 overlay 的正文页使用的贴纸"),
         ending: z.array(OverlayItemSchema).optional(),
       }).optional(),
+    seed: z.union([z.number().int(), z.string()]).optional().describe("随机种子：未固定的贴纸位置、缩放等由其决定，传入上次返回的 seed 可复现同一版式"),
 
     output: z.object({
         format: OutputFormatEnum.optional().default("png"),
-        quality: z.number().min(1).max(100).optional().default(92),
+        quality: z.number().min(1).max(100).optional().default(92).describe("jpg/webp 质量 1~100"),
         width: z.number().positive().optional(),
         height: z.number().positive().optional(),
       }).optional(),
-    fonts: z.array(FontDefSchema).optional(),
 }).strict();
 
 enum ToolName {
     GENERATE_SIMPLE = "generate_simple",
     GENERATE_ADVANCED = "generate_advanced",
+    GENERATE_MARKDOWN = "generate_from_markdown",
     READ_FILE = "read_file",
     LIST_TEMPLATES = "list_templates",
     LIST_TEMPLATE_FILES = "list_template_files",
@@ -128,11 +149,53 @@ enum ToolName {
     DOCS = "docs",
 }
 
+/** 关闭贴纸：config 与 manifest 最多一层贴纸，关掉第一层即可 */
+const NO_OVERLAY: Partial<OverlayConfig>[] = [{ enable: false }];
+
+/** 贴纸清单转为贴纸层的补丁：数量等于清单长度，未给出的位置、缩放等仍按该层的随机设置 */
+function overlayLayer(items: z.infer<typeof OverlayItemSchema>[]): Partial<OverlayConfig>[] {
+  return [{
+    enable: true,
+    count: items.length,
+    positions: items.map(o => ({ asset: o.file, x: o.x, y: o.y, scale: o.scale, rotation: o.rotate, alpha: o.opacity })),
+  }];
+}
+
 function toPublicUrl(absPath: string) {
   const rel = path.relative(outputBase, absPath).split(path.sep).join("/");
   return `${PUBLIC_BASE}/outputs/${encodeURI(rel)}`;
 }
 
+function resultFiles(result: RenderResult) {
+  const pageFiles = (r: Pick<RenderResult, "outputs">, prefix = "") =>
+    r.outputs.map(o => ({ kind: `${prefix}${o.name}`, abs: o.file }));
+  if (!result.sizes) return pageFiles(result);
+  return result.sizes.flatMap(size => pageFiles(size, `${size.name}/`));
+}
+
+function generatedContent(result: RenderResult) {
+  const outputs = resultFiles(result).map(f => ({
+    kind:     f.kind,
+    filename: path.basename(f.abs),
+    url:      toPublicUrl(f.abs),
+  }));
+
+  return {
+    content: [
+      { type: "text", text: "✅ Image(s) generated. Download URLs are ready." },
+      { type: "text", text: outputs.map(o => `${o.kind}: ${o.url}`).join("\n") }
+    ],
+    metadata: {
+      outputs,
+      outputDir: result.outputDir,
+      publicBase: PUBLIC_BASE,
+      warnings: result.warnings,
+      seed: result.seed,
+      seeds: result.seeds,
+    },
+  };
+}
+
 export function createMCPServer() {
   const server = new Server(
   { 
@@ -156,6 +219,11 @@ export function createMCPServer() {
         description: "生成适配小红书（目标用户：宝妈）的图片海报：三段式标题（1≤10汉字、2≤7汉字、3≤10汉字，重点在第二段）+ 正文自动换行（每行≤24汉字, 每页最多10行，总共7页内容），标题及征文均支持内联样式高亮关键词（颜色/字号）。返回HTTP下载链接。",
         inputSchema: zodToJsonSchema(MinimalRenderInputSchema) as ToolInput,
       },
+      {
+        name: ToolName.GENERATE_MARKDOWN,
+        description: "把一篇带 front matter 的 Markdown 笔记渲染为封面、正文与结尾图片：标题、粗体、列表、引用与表格自动转为对应样式，按 --- 或正文区域大小分页。返回HTTP下载链接。",
+        inputSchema: zodToJsonSchema(MarkdownRenderInputSchema) as ToolInput,
+      },
     ];
     return { tools };
   });
@@ -164,107 +232,91 @@ export function createMCPServer() {
     const { name, arguments: args } = request.params;
     if (name === ToolName.GENERATE_SIMPLE) {
       const input = MinimalRenderInputSchema.parse(args);
-      const {titleDir, templateName = "default", title, pages, disableOverlay} = input;
+      const {titleDir, templateName = "default", title, pages, ending, qrcode, handle, images, coverPhoto, disableOverlay, sizes, seed, theme} = input;
       const titleTexts = [
         title.line1 ?? "",
         title.line2 ?? "",
         title.line3 ?? "",
       ];
       const pageTexts = pages.map(p => p.text ?? "");
-      const request: any = {
+      const request: RenderRequest = {
         titleDir,
         templateName,
         titleTexts, 
         pages: pageTexts,
+        images,
+        endingTexts: [ending?.cta ?? "", ending?.handle ?? "", ending?.date ?? ""],
+        qrcodes: qrcode ? [qrcode] : [],
+        sizes,
+        seed,
+        theme,
       };
+      if (handle) {
+        request.overrides = { account: { handle } };
+      }
+      if (coverPhoto) {
+        request.photo = { data: coverPhoto, scrim: {} };
+      }
       if (disableOverlay === true) {
-        request.overlayCover = [];
-        request.overlayPages = [];
-        request.overlayEnding = [];
+        request.overrides = { ...request.overrides, overlay: NO_OVERLAY };
       }
       const result = await renderAll(request);
-      const files = [
-        { kind: "cover",  abs: result.cover },
-        ...result.texts.map((p, i) => ({ kind: `text_${i+1}`, abs: p })),
-          { kind: "ending", abs: result.ending },
-      ];
-      const outputs = files.map(f => ({
-        kind:     f.kind,
-        filename: path.basename(f.abs),
-        url:      toPublicUrl(f.abs),
-      }));
-
-      return {
-        content: [
-          { type: "text", text: "✅ Image(s) generated. Download URLs are ready." },
-          { type: "text", text: outputs.map(o => `${o.kind}: ${o.url}`).join("\n") }
-        ],
-        metadata: {
-          outputs,
-          outputDir: result.outputDir,
-          publicBase: PUBLIC_BASE,
-        },
-      };
+      return generatedContent(result);
+    }
+    if (name === ToolName.GENERATE_MARKDOWN) {
+      const { markdown, ...extra } = MarkdownRenderInputSchema.parse(args);
+      const converted = await markdownToRequest(markdown, extra, resolveRenderConfig);
+      if (!converted.request.titleDir) {
+        throw new Error("titleDir is required (front matter or tool argument)");
+      }
+      const result = await renderMarkdown(converted);
+      return generatedContent(result);
     }
     if (name === ToolName.GENERATE_ADVANCED) {
       const input = AdvancedRenderInputSchema.parse(args);
-      const {titleDir, templateName = "default", title, pages, disableOverlay, overlay, output: outputOpts, fonts} = input;
+      const {titleDir, templateName = "default", title, pages, disableOverlay, overlay, output: outputOpts, seed} = input;
       const titleTexts = [
         title.line1 ?? "",
         title.line2 ?? "",
         title.line3 ?? "",
       ];
       const pageTexts = pages.map(p => p.text ?? "");
-      const request: any = {
+      const overrides: NonNullable<RenderRequest["overrides"]> = {
+        // 标题样式作用于三段标题，正文样式按页合并到对应的正文槽位
+        ...(title.style ? { title: titleTexts.map(() => ({ ...title.style })) } : {}),
+        pages: pages.map(p => ({ ...p.style })),
+      };
+      const request: RenderRequest = {
         titleDir,
         templateName,
         titleTexts, 
         pages: pageTexts,
-        advancedTitleStyle: title.style,
-        advancedPageStyles: pages.map(p => p.style),
+        overrides,
+        seed,
       };
       if (disableOverlay === true) {
-        request.overlayCover = [];
-        request.overlayPages = [];
-        request.overlayEnding = [];
+        overrides.overlay = NO_OVERLAY;
       } else {
-        if (overlay?.cover)   request.overlayCover = overlay.cover;
-        if (overlay?.pages)   request.overlayPages = overlay.pages;
-        if (overlay?.ending)  request.overlayEnding = overlay.ending;
+        if (overlay?.cover) request.overlayCover = overlayLayer(overlay.cover);
+        request.overlayPages = pages.map(p => {
+          const items = p.overlay ?? overlay?.pages;
+          return items ? overlayLayer(items) : [];
+        });
+        if (overlay?.ending) request.overlayEnding = overlayLayer(overlay.ending);
       }
       if (outputOpts) {
-        request.outputFormat = outputOpts.format;
-        request.outputQuality = outputOpts.quality;
-        if (outputOpts.width)  request.outputWidth = outputOpts.width;
-        if (outputOpts.height) request.outputHeight = outputOpts.height;
-      }
-      if (fonts) {
-        request.fonts = fonts;
+        // 工具参数的质量为 1~100，配置中为 0~1
+        overrides.output = { format: outputOpts.format, quality: outputOpts.quality / 100 };
+        if (outputOpts.width || outputOpts.height) {
+          overrides.image = {
+            ...(outputOpts.width  ? { width: outputOpts.width } : {}),
+            ...(outputOpts.height ? { height: outputOpts.height } : {}),
+          };
+        }
       }
 
       const result = await renderAll(request);
-      const files = [
-        { kind: "cover",  abs: result.cover },
-        ...result.texts.map((p, i) => ({ kind: `text_${i+1}`, abs: p })),
-          { kind: "ending", abs: result.ending },
-      ];
-      const outputs = files.map(f => ({
-        kind:     f.kind,
-        filename: path.basename(f.abs),
-        url:      toPublicUrl(f.abs),
-      }));
-
-      return {
-        content: [
-          { type: "text", text: "✅ Image(s) generated. Download URLs are ready." },
-          { type: "text", text: outputs.map(o => `${o.kind}: ${o.url}`).join("\n") }
-        ],
-        metadata: {
-          outputs,
-          outputDir: result.outputDir,
-          publicBase: PUBLIC_BASE,
-        },
-      };
+      return generatedContent(result);
     }
 
     throw new Error(`Unknown tool: ${name}`);
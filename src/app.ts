@@ -4,9 +4,21 @@ import * as url from "node:url";
 import * as path from "node:path";
 import * as fs from "node:fs/promises";
 import * as fssync from "node:fs";
+import multer from "multer";
 
-import config from "./config";
-import { renderAll, type RenderRequest } from "./render";
+import config, { type AppConfig, type PageKind } from "./config";
+import { applyTemplateManifest } from "./manifest";
+import { renderAll, renderMarkdown, resolveRenderConfig, type RenderRequest } from "./render";
+import {
+  TemplateError,
+  createTemplate,
+  cloneTemplate,
+  updateTemplate,
+  deleteTemplate,
+  declaredBackground,
+} from "./templates";
+import { lintTemplate } from "./lint";
+import { markdownToRequest, type MarkdownImport } from "./markdown";
 
 import {
   PROJECT_ROOT,
@@ -37,6 +49,58 @@ function readBody(req: http.IncomingMessage): Promise<string> {
   });
 }
 
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } }).any();
+// multer 按 express 的 Request/Response 声明参数，这里直接处理 node:http 的请求
+type UploadRequest = Parameters<typeof upload>[0];
+type UploadResponse = Parameters<typeof upload>[1];
+
+function isMultipart(req: http.IncomingMessage) {
+  return (req.headers["content-type"] || "").startsWith("multipart/form-data");
+}
+
+function readMultipart(req: http.IncomingMessage, res: http.ServerResponse) {
+  return new Promise<{ body: Record<string, string>; files: Express.Multer.File[] }>((resolve, reject) => {
+    upload(req as unknown as UploadRequest, res as unknown as UploadResponse, (err?: unknown) => {
+      if (err) return reject(err);
+      const { body, files } = req as unknown as { body?: Record<string, string>; files?: Express.Multer.File[] };
+      resolve({ body: body ?? {}, files: files ?? [] });
+    });
+  });
+}
+
+/**
+ * multipart/form-data 形式的渲染请求：payload 字段为 RenderRequest JSON，
+ * 文件字段 photo 为背景照片（合并到 payload.photo 的 data），
+ * 其余文件作为正文插图，字段名即 <img:name> 中的 name（字段名为 images 时取文件名）。
+ */
+async function readMultipartRender(req: http.IncomingMessage, res: http.ServerResponse): Promise<RenderRequest> {
+  const { body, files } = await readMultipart(req, res);
+  let payload: RenderRequest;
+  try {
+    payload = JSON.parse(body.payload || "{}") as RenderRequest;
+  } catch (e) {
+    throw new Error(`Invalid payload JSON: ${(e as Error).message}`);
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) throw new Error("payload must be a JSON object");
+  payload.images = { ...payload.images };
+  for (const f of files) {
+    if (f.fieldname === "photo") {
+      payload.photo = { ...payload.photo, data: f.buffer };
+      continue;
+    }
+    const name = f.fieldname === "images" ? path.parse(f.originalname).name : f.fieldname;
+    payload.images[name] = { data: f.buffer };
+  }
+  return payload;
+}
+
+function sendTemplateError(res: http.ServerResponse, e: unknown) {
+  if (e instanceof TemplateError) {
+    return sendJSON(res, e.status, { ok: false, error: e.message, details: e.details.length ? e.details : undefined });
+  }
+  return sendJSON(res, 500, { ok: false, error: (e as Error).message });
+}
+
 function guessContentType(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
   switch (ext) {
@@ -62,7 +126,7 @@ const server = http.createServer(async (req, res) => {
   const parsed = url.parse(req.url || "", true);
 
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,DELETE,OPTIONS");
   res.setHeader("Access-Control-Allow-Headers", "Content-Type");
 
   if (req.method === "OPTIONS") {
@@ -83,6 +147,52 @@ const server = http.createServer(async (req, res) => {
     }
   }
 
+  // 模板管理：multipart 字段 cover/text/ending/assets/fonts/manifest/zip，name 为模板名
+  if (req.method === "POST" && parsed.pathname === "/templates") {
+    try {
+      const { body, files } = await readMultipart(req, res);
+      if (!body.name) return sendJSON(res, 400, { ok: false, error: "name is required" });
+      const dir = await createTemplate(body.name, files);
+      return sendJSON(res, 201, { ok: true, template: body.name, templateDir: path.relative(PROJECT_ROOT, dir) });
+    } catch (e) {
+      return sendTemplateError(res, e);
+    }
+  }
+
+  if (req.method === "POST" && parsed.pathname === "/templates/clone") {
+    try {
+      const { from, to } = JSON.parse((await readBody(req)) || "{}") as { from?: string; to?: string };
+      if (!from || !to) return sendJSON(res, 400, { ok: false, error: "from and to are required" });
+      const dir = await cloneTemplate(from, to);
+      return sendJSON(res, 201, { ok: true, template: to, templateDir: path.relative(PROJECT_ROOT, dir) });
+    } catch (e) {
+      return sendTemplateError(res, e);
+    }
+  }
+
+  if (req.method === "POST" && parsed.pathname === "/templates/update") {
+    try {
+      const { body, files } = await readMultipart(req, res);
+      if (!body.name) return sendJSON(res, 400, { ok: false, error: "name is required" });
+      const removeAssets = (body.removeAssets || "").split(",").map(s => s.trim()).filter(Boolean);
+      const dir = await updateTemplate(body.name, files, removeAssets);
+      return sendJSON(res, 200, { ok: true, template: body.name, templateDir: path.relative(PROJECT_ROOT, dir) });
+    } catch (e) {
+      return sendTemplateError(res, e);
+    }
+  }
+
+  if (req.method === "DELETE" && parsed.pathname === "/templates") {
+    try {
+      const name = String(parsed.query.name || "");
+      if (!name) return sendJSON(res, 400, { ok: false, error: "name is required" });
+      await deleteTemplate(name);
+      return sendJSON(res, 200, { ok: true, deleted: name });
+    } catch (e) {
+      return sendTemplateError(res, e);
+    }
+  }
+
   if (req.method === "GET" && parsed.pathname === "/list-template") {
     const name = (parsed.query["name"] as string) || config.templates.defaultName;
     try {
@@ -93,6 +203,17 @@ const server = http.createServer(async (req, res) => {
     }
   }
 
+  // 模板检查：必需文件、尺寸、文字块越界、贴纸、字体声明与文字对比度
+  if (req.method === "GET" && parsed.pathname === "/lint-template") {
+    try {
+      const name = String(parsed.query.name || config.templates.defaultName);
+      const report = await lintTemplate(name);
+      return sendJSON(res, 200, { ok: true, report });
+    } catch (e) {
+      return sendTemplateError(res, e);
+    }
+  }
+
   if (req.method === "GET" && parsed.pathname === "/list-output") {
     try {
       const result = await listOutputFiles();
@@ -148,12 +269,14 @@ const server = http.createServer(async (req, res) => {
 
       const name = payload.templateName || config.templates.defaultName;
       const tmpl = await listTemplateFiles(name);
-      if (tmpl.pngFiles.length === 0) {
+      const appcfg: AppConfig = tmpl.manifest ? applyTemplateManifest(config, tmpl.manifest, tmpl.templateDir) : config;
+      const hasBackgrounds = (["cover", "text", "ending"] as PageKind[]).some(p => declaredBackground(appcfg.backgrounds, p));
+      if (tmpl.pngFiles.length === 0 && !hasBackgrounds) {
         return sendJSON(res, 400, { ok: false, error: "No template PNG found" });
       }
 
-      const fonts = await checkFonts(config.fonts);
-      const missing = fonts.filter((f) => !f.exists);
+      const fonts = await checkFonts(appcfg.fonts);
+      const missing = fonts.filter((f) => !f.exists && !f.optional);
       if (missing.length) {
         return sendJSON(res, 400, {
           ok: false,
@@ -162,18 +285,24 @@ const server = http.createServer(async (req, res) => {
         });
       }
 
-      return sendJSON(res, 200, { ok: true, template: tmpl, fonts });
+      const lint = await lintTemplate(name);
+      return sendJSON(res, 200, { ok: true, template: tmpl, fonts, lint });
     } catch (e) {
       return sendJSON(res, 500, { ok: false, error: (e as Error).message });
     }
   }
 
   if (req.method === "POST" && parsed.pathname === "/render") {
+    let payload: RenderRequest;
     try {
-      const raw = await readBody(req);
-      const payload = JSON.parse(raw || "{}") as RenderRequest;
-
-      if (!payload.titleDir || typeof payload.titleDir !== "string") {
+      payload = isMultipart(req)
+        ? await readMultipartRender(req, res)
+        : JSON.parse((await readBody(req)) || "{}") as RenderRequest;
+    } catch (e) {
+      return sendJSON(res, 400, { ok: false, error: (e as Error).message });
+    }
+    try {
+      if (!payload?.titleDir || typeof payload.titleDir !== "string") {
         return sendJSON(res, 400, { ok: false, error: "titleDir is required (string)" });
       }
 
@@ -184,6 +313,39 @@ const server = http.createServer(async (req, res) => {
     }
   }
 
+  // Markdown 笔记：JSON 为 { markdown, ...请求字段 }，其他类型的请求体整体作为 Markdown；dryRun=1 时只返回转换后的请求
+  if (req.method === "POST" && parsed.pathname === "/render/markdown") {
+    let converted: MarkdownImport;
+    try {
+      const raw = await readBody(req);
+      let source = raw;
+      let extra: Partial<RenderRequest> = {};
+      if ((req.headers["content-type"] || "").startsWith("application/json")) {
+        const { markdown, ...rest } = JSON.parse(raw || "{}") as Partial<RenderRequest> & { markdown?: string };
+        source = markdown ?? "";
+        extra = rest;
+      }
+      if (!source.trim()) {
+        return sendJSON(res, 400, { ok: false, error: "markdown is required" });
+      }
+      converted = await markdownToRequest(source, extra, resolveRenderConfig);
+    } catch (e) {
+      return sendJSON(res, 400, { ok: false, error: (e as Error).message });
+    }
+    if (parsed.query["dryRun"] === "1") {
+      return sendJSON(res, 200, { ok: true, ...converted });
+    }
+    if (!converted.request.titleDir) {
+      return sendJSON(res, 400, { ok: false, error: "titleDir is required (front matter or request)" });
+    }
+    try {
+      const result = await renderMarkdown(converted);
+      return sendJSON(res, 200, { ok: true, result });
+    } catch (err) {
+      return sendJSON(res, 500, { ok: false, error: (err as Error).message });
+    }
+  }
+
   if (req.method === "GET" && parsed.pathname === "/preview") {
     try {
       const scope = (parsed.query["scope"] as string) || "output";
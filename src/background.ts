@@ -0,0 +1,182 @@
+// background.ts
+import { createCanvas, type CanvasRenderingContext2D } from "canvas";
+import type { BackgroundConfig, PhotoBackground, Rect, ThemeColors } from "./config";
+import { gradientFill } from "./layout";
+import type { Random } from "./random";
+import { resolveThemeColor } from "./theme";
+
+const GRAIN_TILE = 256;
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+export function isBackgroundConfig(bg: unknown): bg is BackgroundConfig {
+  return typeof bg === "object" && bg !== null && typeof (bg as BackgroundConfig).type === "string";
+}
+
+/** 颗粒纹理：先铺满颜色，再逐像素随机透明度，做成小图平铺，避免逐像素处理整张画布 */
+function drawGrain(ctx: CanvasRenderingContext2D, W: number, H: number, color: string, amount: number, rand: Random) {
+  const tile = createCanvas(GRAIN_TILE, GRAIN_TILE);
+  const tctx = tile.getContext("2d");
+  tctx.fillStyle = color;
+  tctx.fillRect(0, 0, GRAIN_TILE, GRAIN_TILE);
+  const img = tctx.getImageData(0, 0, GRAIN_TILE, GRAIN_TILE);
+  const alpha = Math.max(0, Math.min(1, amount)) * 255;
+  for (let i = 3; i < img.data.length; i += 4) img.data[i] = rand() * alpha;
+  tctx.putImageData(img, 0, 0);
+
+  const pattern = ctx.createPattern(tile, "repeat");
+  if (!pattern) return;
+  ctx.save();
+  ctx.fillStyle = pattern;
+  ctx.fillRect(0, 0, W, H);
+  ctx.restore();
+}
+
+/** 纸张：底色上叠几块柔和的深浅斑驳，再加细颗粒 */
+function drawPaper(ctx: CanvasRenderingContext2D, W: number, H: number, bg: BackgroundConfig, rand: Random) {
+  const tint = bg.patternColor ?? "#8b6f47";
+  ctx.save();
+  for (let k = 0; k < 6; k++) {
+    const x = rand() * W, y = rand() * H;
+    const r = (0.3 + rand() * 0.4) * Math.max(W, H);
+    const blot = ctx.createRadialGradient(x, y, 0, x, y, r);
+    blot.addColorStop(0, tint);
+    blot.addColorStop(1, "transparent");
+    ctx.globalAlpha = 0.03 + rand() * 0.04;
+    ctx.fillStyle = blot;
+    ctx.fillRect(0, 0, W, H);
+  }
+  ctx.restore();
+  drawGrain(ctx, W, H, tint, bg.amount ?? 0.08, rand);
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, W: number, H: number, bg: BackgroundConfig) {
+  const spacing = Math.max(4, bg.spacing ?? 40);
+  ctx.save();
+  ctx.strokeStyle = bg.patternColor ?? "rgba(0,0,0,0.08)";
+  ctx.lineWidth = bg.size ?? 1;
+  ctx.beginPath();
+  // 网格从画布中心向两侧展开，左右、上下的边距对称
+  const ox = (W / 2) % spacing, oy = (H / 2) % spacing;
+  for (let x = ox; x <= W; x += spacing) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, H);
+  }
+  for (let y = oy; y <= H; y += spacing) {
+    ctx.moveTo(0, y);
+    ctx.lineTo(W, y);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawDots(ctx: CanvasRenderingContext2D, W: number, H: number, bg: BackgroundConfig) {
+  const spacing = Math.max(4, bg.spacing ?? 32);
+  const radius = bg.size ?? 2;
+  ctx.save();
+  ctx.fillStyle = bg.patternColor ?? "rgba(0,0,0,0.15)";
+  ctx.beginPath();
+  const ox = (W / 2) % spacing, oy = (H / 2) % spacing;
+  for (let y = oy; y <= H; y += spacing) {
+    for (let x = ox; x <= W; x += spacing) {
+      ctx.moveTo(x + radius, y);
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+    }
+  }
+  ctx.fill();
+  ctx.restore();
+}
+
+/** 按声明绘制整页背景；颗粒与斑驳由 rand 决定，同一种子结果相同 */
+export function drawProceduralBackground(
+  ctx: CanvasRenderingContext2D,
+  bg: BackgroundConfig,
+  W: number,
+  H: number,
+  rand: Random
+) {
+  ctx.save();
+  ctx.fillStyle = bg.color;
+  ctx.fillRect(0, 0, W, H);
+
+  const colors = bg.colors?.length ? bg.colors : [bg.color];
+  switch (bg.type) {
+    case "linear":
+      ctx.fillStyle = gradientFill(ctx, { colors, angle: bg.angle }, { left: 0, right: W, top: 0, bottom: H });
+      ctx.fillRect(0, 0, W, H);
+      break;
+    case "radial": {
+      const fill = ctx.createRadialGradient(W / 2, H / 2, 0, W / 2, H / 2, Math.hypot(W, H) / 2);
+      colors.forEach((c, k) => fill.addColorStop(colors.length === 1 ? 0 : k / (colors.length - 1), c));
+      ctx.fillStyle = fill;
+      ctx.fillRect(0, 0, W, H);
+      break;
+    }
+    case "paper":
+      drawPaper(ctx, W, H, bg, rand);
+      break;
+    case "grid":
+      drawGrid(ctx, W, H, bg);
+      break;
+    case "dots":
+      drawDots(ctx, W, H, bg);
+      break;
+    case "noise":
+      drawGrain(ctx, W, H, bg.patternColor ?? "#000000", bg.amount ?? 0.15, rand);
+      break;
+    case "solid":
+      break;
+  }
+  ctx.restore();
+}
+
+/** 自动遮罩：文字重心在上半部分时从顶部往下，否则从底部往上，覆盖到文字外侧再多 8% 画布高度 */
+function scrimExtent(scrim: NonNullable<PhotoBackground["scrim"]>, H: number, textRects: Rect[]) {
+  const top = Math.min(...textRects.map(r => r.y));
+  const bottom = Math.max(...textRects.map(r => r.y + r.height));
+  const hasText = textRects.length > 0;
+  const edge = scrim.edge && scrim.edge !== "auto" ? scrim.edge
+    : hasText && (top + bottom) / 2 < H / 2 ? "top" : "bottom";
+  let reach: number;
+  if (scrim.size !== undefined) reach = clamp(scrim.size, 0, 1) * H;
+  else if (!hasText) reach = H * 0.4;
+  else reach = clamp((edge === "top" ? bottom : H - top) + H * 0.08, H * 0.2, H);
+  return { edge, reach };
+}
+
+/** 在照片上叠色调与渐变遮罩；遮罩先画在单独图层上再用渐变透明度裁掉，任何颜色都不会在渐变中发灰 */
+export function drawPhotoOverlay(
+  ctx: CanvasRenderingContext2D,
+  photo: PhotoBackground,
+  W: number,
+  H: number,
+  textRects: Rect[],
+  theme: ThemeColors | undefined
+) {
+  if (photo.tint) {
+    ctx.save();
+    ctx.globalAlpha = clamp(photo.tint.opacity ?? 0.25, 0, 1);
+    ctx.fillStyle = resolveThemeColor(photo.tint.color, theme);
+    ctx.fillRect(0, 0, W, H);
+    ctx.restore();
+  }
+
+  const scrim = photo.scrim;
+  if (!scrim) return;
+  const { edge, reach } = scrimExtent(scrim, H, textRects);
+  if (reach <= 0) return;
+  const layer = createCanvas(W, H);
+  const lctx = layer.getContext("2d");
+  lctx.fillStyle = resolveThemeColor(scrim.color, theme) ?? "#000000";
+  lctx.fillRect(0, 0, W, H);
+  const from = edge === "top" ? 0 : H;
+  const to = edge === "top" ? reach : H - reach;
+  const opacity = clamp(scrim.opacity ?? 0.55, 0, 1);
+  const gradient = lctx.createLinearGradient(0, from, 0, to);
+  gradient.addColorStop(0, `rgba(0,0,0,${opacity})`);
+  gradient.addColorStop(0.5, `rgba(0,0,0,${opacity * 0.8})`);
+  gradient.addColorStop(1, "rgba(0,0,0,0)");
+  lctx.globalCompositeOperation = "destination-in";
+  lctx.fillStyle = gradient;
+  lctx.fillRect(0, 0, W, H);
+  ctx.drawImage(layer, 0, 0);
+}
@@ -0,0 +1,131 @@
+// blocks.ts
+import type { LayoutGlyph } from "./layout";
+
+/**
+ * 正文的块级标记，按段落行首的文字识别（标记外面可以包内联标签，如 <c:accent>- 重点</c>）：
+ *   - 项目  * 项目  • 项目          无序列表
+ *   1. 项目  1) 项目  1、项目        有序列表，保留原编号
+ *   - [ ] 待办  - [x] 已完成         复选框（也可省略前面的 "- "）
+ *   | 名称 | 价格 |                  表格行；紧跟第一行的 |---|:---:| 把第一行设为表头，冒号决定列的对齐
+ * 行首每两个空格（或一个制表符）缩进一级，最多三级（缩进更深的按第三级处理）。
+ */
+export type ListMarkerKind = "bullet" | "number" | "check";
+export type CellAlign = "left" | "center" | "right";
+
+export interface ListBlock {
+  type: "list";
+  kind: ListMarkerKind;
+  level: number;
+  /** 有序列表的原编号，如 "1." */
+  label: string;
+  checked?: boolean;
+  /** 标记第一个字的样式，列表符号按它的颜色与字号绘制 */
+  markerGlyph: LayoutGlyph;
+  glyphs: LayoutGlyph[];
+}
+
+export interface TableBlock {
+  type: "table";
+  rows: LayoutGlyph[][][];
+  header: boolean;
+  align: CellAlign[];
+}
+
+export type ParagraphBlock = { type: "text"; glyphs: LayoutGlyph[] } | ListBlock | TableBlock;
+
+const MAX_LEVEL = 2;
+const LIST_RE = /^([ \t]*)(?:([-*•])\s+(?:\[([ xX])\]\s+)?|(\d{1,3}(?:[.)](?=\s)|、))\s*|\[([ xX])\]\s+)/;
+const ROW_RE = /^\s*\|.*\|\s*$/;
+const SEPARATOR_RE = /^\s*\|(?:\s*:?-+:?\s*\|)+\s*$/;
+
+function paragraphText(glyphs: LayoutGlyph[]) {
+  return glyphs.map(g => g.text).join("");
+}
+
+/** 去掉开头 length 个字符所在的字形 */
+function dropPrefix(glyphs: LayoutGlyph[], length: number) {
+  let k = 0;
+  for (let used = 0; k < glyphs.length && used < length; k++) used += glyphs[k].text.length;
+  return glyphs.slice(k);
+}
+
+function indentLevel(indent: string) {
+  let spaces = 0;
+  for (const ch of indent) spaces += ch === "\t" ? 2 : 1;
+  return Math.min(MAX_LEVEL, Math.floor(spaces / 2));
+}
+
+function trimSpaces(glyphs: LayoutGlyph[]) {
+  let a = 0, b = glyphs.length;
+  while (a < b && glyphs[a].kind === "space") a++;
+  while (b > a && glyphs[b - 1].kind === "space") b--;
+  return glyphs.slice(a, b);
+}
+
+/** 按 "|" 拆分单元格，首尾的竖线之外的内容丢弃 */
+function splitCells(glyphs: LayoutGlyph[]) {
+  const cells: LayoutGlyph[][] = [[]];
+  for (const g of glyphs) {
+    if (g.text === "|") cells.push([]);
+    else cells[cells.length - 1].push(g);
+  }
+  return cells.slice(1, -1).map(trimSpaces);
+}
+
+function separatorAlign(text: string): CellAlign[] {
+  return text.trim().slice(1, -1).split("|").map(cell => {
+    const c = cell.trim();
+    if (c.startsWith(":") && c.endsWith(":")) return "center";
+    if (c.endsWith(":")) return "right";
+    return "left";
+  });
+}
+
+function listBlock(glyphs: LayoutGlyph[]): ListBlock | undefined {
+  const m = LIST_RE.exec(paragraphText(glyphs));
+  if (!m) return undefined;
+  const [matched, indent, bullet, bulletCheck, number, check] = m;
+  const box = bulletCheck ?? check;
+  const markerGlyph = dropPrefix(glyphs, indent.length)[0];
+  return {
+    type: "list",
+    kind: box !== undefined ? "check" : number !== undefined ? "number" : "bullet",
+    level: indentLevel(indent),
+    label: number ?? bullet ?? "",
+    checked: box !== undefined ? box.toLowerCase() === "x" : undefined,
+    markerGlyph,
+    glyphs: dropPrefix(glyphs, matched.length),
+  };
+}
+
+/** 把段落（字形数组）识别为普通段落、列表项或表格；连续的表格行合并为一张表，插图等其他项原样保留 */
+export function parseBlocks<T>(items: (LayoutGlyph[] | T)[]): (ParagraphBlock | T)[] {
+  const out: (ParagraphBlock | T)[] = [];
+  let table: TableBlock | undefined;
+
+  for (const item of items) {
+    if (!Array.isArray(item)) {
+      table = undefined;
+      out.push(item);
+      continue;
+    }
+    const text = paragraphText(item);
+    if (ROW_RE.test(text)) {
+      if (table && table.rows.length === 1 && !table.header && SEPARATOR_RE.test(text)) {
+        table.header = true;
+        table.align = separatorAlign(text);
+        continue;
+      }
+      if (SEPARATOR_RE.test(text)) continue;
+      if (!table) {
+        table = { type: "table", rows: [], header: false, align: [] };
+        out.push(table);
+      }
+      table.rows.push(splitCells(item));
+      continue;
+    }
+    table = undefined;
+    out.push(listBlock(item) ?? { type: "text", glyphs: item });
+  }
+  return out;
+}
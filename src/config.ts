@@ -3,11 +3,25 @@ import * as path from "node:path";
 
 type TextAlign = "left" | "center" | "right" | "justify";
 type OutputFormat = "png" | "jpg" | "jpeg" | "webp";
+type TextOverflow = "clip" | "paginate";
+type TextFitMode = "shrink" | "grow" | "both";
+type WritingMode = "horizontal-tb" | "vertical-rl";
+type QRErrorLevel = "L" | "M" | "Q" | "H";
+type WatermarkCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+type BackgroundType = "solid" | "linear" | "radial" | "paper" | "grid" | "dots" | "noise";
+type ShapeKind = "rect" | "circle" | "line" | "arrow" | "callout" | "badge";
+export type PageKind = "cover" | "text" | "ending";
 
 export interface FontDef {
   path: string;
   family: string;
   name: string;
+  fallback?: string[];       // 缺字时依次尝试的其他字体（config.fonts 的 key）
+  optional?: boolean;        // 字体文件不存在时不视为错误
+}
+
+export interface EmojiConfig {
+  imageDir?: string;         // emoji 图片目录（Twemoji 命名，如 1f600.png），存在时优先于 emoji 字体
 }
 
 export interface TemplatesConfig {
@@ -18,7 +32,75 @@ export interface TemplatesConfig {
 export interface OutputConfig {
   directory: string;
   format: OutputFormat;
-  quality: number;
+  quality: number;           // 0~1，对 jpg/webp 生效
+  progressive?: boolean;     // 仅 jpg：渐进式编码
+  chromaSubsampling?: boolean; // 仅 jpg：默认开启（4:2:0），关闭可避免彩色文字边缘发虚
+  lossless?: boolean;        // 仅 webp
+}
+
+export interface TextFit {
+  mode: TextFitMode;         // shrink: 只缩小；grow: 只放大；both: 双向
+  minFontSize?: number;
+  maxFontSize?: number;
+}
+
+export interface LineBreakOptions {
+  kinsoku?: boolean;             // 中日文禁则：标点不出现在行首、开括号不出现在行尾（默认开启）
+  hangingPunctuation?: boolean;  // 行尾句读可悬挂到文本框外
+  hyphenate?: boolean;           // 过长的拉丁单词断开并补连字符
+}
+
+export interface TextStroke {
+  color: string;
+  width: number;
+}
+
+export interface TextShadow {
+  color: string;
+  offsetX?: number;
+  offsetY?: number;
+  blur?: number;
+}
+
+export interface TextGradient {
+  colors: string[];          // 均匀分布的渐变色
+  angle?: number;            // 0 为从左到右，90 为从上到下
+}
+
+/** 内联 <box> / <circle> 圈注：在文字外围描一圈方框或椭圆 */
+export interface TextFrame {
+  shape: "box" | "circle";
+  color: string;
+  width?: number;            // 线宽，默认随字号
+}
+
+export interface TextPlate {
+  color: string;
+  radius?: number;           // 不设置时为胶囊形（半径取高度一半）
+  paddingX?: number;
+  paddingY?: number;
+}
+
+/** 正文的列表与表格（行首的 "- "、"1. "、"- [ ] "、"| … |"），默认不识别，写了 blocks 即启用；Markdown 导入自动启用 */
+export interface BlockStyle {
+  enabled?: boolean;         // false 时按普通文字处理
+  bullet?: string;           // 无序列表符号，默认 •
+  markerColor?: string;      // 列表符号与复选框颜色，默认与该项文字相同
+  borderColor?: string;      // 表格线颜色，默认主题 muted
+  borderWidth?: number;
+  headerBackground?: string; // 表头底色，默认为表格线颜色的浅色
+}
+
+/** Markdown 导入：各元素换成的内联标记，$ 处填入内容 */
+export interface MarkdownStyle {
+  headings: string[];        // 依次对应 #、##、###…，不足时取最后一项
+  strong: string;
+  emphasis: string;
+  strike: string;
+  code: string;
+  link: string;
+  quote: string;
+  linesPerPage?: number;     // 自动分页时每页的行数，默认按正文文本框估算
 }
 
 export interface BaseTextStyle {
@@ -35,6 +117,15 @@ export interface BaseTextStyle {
   text?: string;
   enableInlineMarkup?: boolean;
   charsPerLine?: number;
+  overflow?: TextOverflow;   // clip: 超出 maxLines/height 的内容丢弃；paginate: 续排到新的正文页
+  fit?: TextFit;             // 在 width/height/maxLines 限定的文本框内自动调整字号
+  lineBreak?: LineBreakOptions;
+  stroke?: TextStroke;       // 描边
+  shadow?: TextShadow;       // 投影
+  gradient?: TextGradient;   // 渐变填充，优先于 color
+  plate?: TextPlate;         // 每行文字背后的圆角底板
+  writingMode?: WritingMode; // vertical-rl: 竖排，从右到左分列，按 height 换列
+  blocks?: BlockStyle;       // 列表与表格，仅横排
 }
 
 type TitleArray =
@@ -53,6 +144,13 @@ type PagesArray =
   | [BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle]
   | [BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle, BaseTextStyle];
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface OverlayConfig {
   enable: boolean;
   count: number;
@@ -61,6 +159,10 @@ export interface OverlayConfig {
   scaleRange: [number, number];
   rotationRange: [number, number];
   alphaRange: [number, number];
+  avoidText?: boolean;       // 随机摆放时避开文字块（默认 true）
+  keepOut?: Rect[];          // 额外的禁放区域，如模板上已有的图案
+  margin?: number;           // 与文字、禁放区域及其他贴纸保持的距离
+  allowOverlap?: boolean;    // 允许贴纸之间互相重叠
 }
 
 type OverlayArray = | [] | [OverlayConfig]
@@ -70,29 +172,229 @@ export interface ImageConfig {
   height: number;
 }
 
+/** 程序生成的页面背景，用于没有底图的模板 */
+export interface BackgroundConfig {
+  type: BackgroundType;
+  color: string;             // 底色；linear/radial 未给 colors 时作为单色
+  colors?: string[];         // linear/radial 的渐变色，均匀分布
+  angle?: number;            // linear：0 为从左到右，90 为从上到下
+  patternColor?: string;     // grid 的线、dots 的点、paper/noise 的颗粒颜色
+  spacing?: number;          // grid/dots 的间距（像素）
+  size?: number;             // grid 线宽或 dots 半径
+  amount?: number;           // paper/noise 的颗粒强度，0~1
+}
+
+/** 主题色，配置与内联标记中的颜色可直接写角色名，如 color: "accent"、<c:accent> */
+export interface ThemeColors {
+  primary: string;           // 标题等主要文字
+  accent: string;            // 强调色
+  text: string;              // 正文
+  muted: string;             // 页眉页脚、图注等次要文字
+  background: string;        // 二维码底色等浅色块
+}
+
+export interface BackgroundsConfig {
+  mode: "fallback" | "replace"; // fallback: 模板缺少对应 PNG 时才使用；replace: 总是使用生成的背景
+  default?: BackgroundConfig;   // 未单独声明的页面使用
+  cover?: BackgroundConfig;
+  text?: BackgroundConfig;
+  ending?: BackgroundConfig;
+}
+
+export interface FigureStyle {
+  radius: number;            // 插图圆角，单张图片可单独覆盖
+  maxHeight: number;         // 插图最大高度，超出时按比例缩小
+  gap: number;               // 插图与上下文字的间距
+  captionFontSize: number;
+  captionColor: string;
+}
+
+/** 页眉/页脚文字，可使用 {page} {total} {title} {handle} {date} 占位符 */
+export interface PageMarkStyle extends BaseTextStyle {
+  pages?: PageKind[];        // 出现在哪些页面，默认全部
+}
+
+export interface WatermarkConfig {
+  enable: boolean;
+  text: string;              // 纯文本，占位符同页眉页脚
+  mode: "tile" | "corner";   // tile: 错行平铺整张图；corner: 只画在一角
+  corner?: WatermarkCorner;  // 默认右下角
+  fontSize: number;
+  fontFamily: string;
+  color: string;
+  opacity: number;
+  rotation: number;          // 角度
+  gapX?: number;             // tile 模式下相邻文字的间距
+  gapY?: number;
+  margin?: number;           // corner 模式下距画布边缘的距离
+  pages?: PageKind[];
+}
+
+export interface AccountConfig {
+  handle: string;            // 账号名，用于 {handle}
+}
+
+export interface QRCodeStyle {
+  x: number;
+  y: number;
+  size: number;              // 含留白的边长（像素）
+  color: string;
+  background?: string;       // 不设置时背景透明
+  margin?: number;           // 留白宽度（模块数），默认 2
+  errorCorrectionLevel?: QRErrorLevel;
+}
+
+/**
+ * 输出尺寸预设。title/pages 等坐标按 image 尺寸编写，渲染时按宽高比例换算到预设尺寸；
+ * 预设中的 title/pages/ending 为换算后的微调（目标尺寸下的像素值）。
+ */
+export interface SizePreset {
+  width: number;
+  height: number;
+  label?: string;
+  title?: Partial<BaseTextStyle>[];
+  pages?: Partial<BaseTextStyle>;  // 应用到所有正文页
+  ending?: Partial<BaseTextStyle>[];
+}
+
+/** 正文插图：data 为 base64 / data URL / Buffer，或用 name 引用请求 images 中的图片 */
+export interface EmbeddedImage {
+  data?: string | Buffer;    // base64 或 data URL；multipart 上传的文件为 Buffer
+  name?: string;             // pageImages 中引用 images 里的图片
+  radius?: number;
+  caption?: string;
+}
+
+/** 照片上的渐变遮罩：靠边一侧为 opacity，向画布内渐变到透明，压住文字背后的照片 */
+export interface PhotoScrim {
+  color?: string;            // 默认黑色，可写主题角色名
+  opacity?: number;          // 默认 0.55
+  edge?: "top" | "bottom" | "auto"; // auto（默认）：按页面文字重心选择靠上或靠下
+  size?: number;             // 遮罩高度占画布的比例；不填时覆盖到文字区域外再多一点
+}
+
+/** 请求提供的照片，替代模板底图作为页面背景 */
+export interface PhotoBackground {
+  data?: string | Buffer;    // base64 或 data URL；multipart 上传字段 photo 为 Buffer
+  name?: string;             // 或引用请求 images 中的图片
+  pages?: PageKind[];        // 用于哪些页面，默认只有封面
+  fit?: "cover" | "contain"; // cover（默认）裁切铺满；contain 完整放入，四周用同一张照片的模糊放大版填充
+  focus?: { x: number; y: number }; // cover 裁切时保留的焦点，相对照片宽高 0~1，默认居中
+  blur?: number;             // 高斯模糊半径（sigma，像素）
+  brightness?: number;       // 亮度倍数：小于 1 压暗，大于 1 提亮
+  tint?: { color: string; opacity?: number }; // 整张叠一层颜色，opacity 默认 0.25
+  scrim?: PhotoScrim;
+  frame?: boolean;           // 模板底图带透明区域时盖在照片上作为边框，默认 true
+}
+
+interface ElementBase {
+  id?: string;               // 请求 texts 按 id 填入文字；也用于告警信息
+  z?: number;                // 绘制顺序，数值大的在上；默认按元素顺序
+}
+
+export interface TextElement extends ElementBase, BaseTextStyle {
+  type: "text";
+  tokens?: boolean;          // 替换 {page} {total} {title} {handle} {date} 占位符
+  figures?: EmbeddedImage[]; // 排在文字之前的插图
+}
+
+export interface ImageElement extends ElementBase, Rect {
+  type: "image";
+  src: string;               // 请求 images 中的名称，或模板目录内的相对路径
+  fit?: "cover" | "contain" | "fill";
+  radius?: number;
+  opacity?: number;
+}
+
+/**
+ * 矢量图形。rect/circle/callout/badge 占据 x/y/width/height 的矩形（circle 为内切椭圆）；
+ * line/arrow 从 (x, y) 画到 (x2, y2)，未给终点时为 (x + width, y + height)。
+ */
+export interface ShapeElement extends ElementBase, Rect {
+  type: "shape";
+  shape: ShapeKind;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];           // 虚线的线段与间隔长度，如 [12, 8]
+  radius?: number;           // rect/callout 的圆角
+  opacity?: number;
+  x2?: number;
+  y2?: number;
+  headSize?: number;         // arrow 箭头长度，默认按线宽计算
+  tail?: { x: number; y: number; width?: number };  // callout 的尖角指向的点，width 为尖角底边宽度
+  text?: string;             // badge 中的文字，如序号
+  color?: string;            // badge 文字颜色
+  fontSize?: number;
+  fontFamily?: string;
+  pages?: PageKind[];        // 仅用于 config/请求的 shapes：出现在哪些页面，默认全部
+}
+
+export interface OverlayElement extends ElementBase {
+  type: "overlay";
+  layers?: Partial<OverlayConfig>[];  // 覆盖 config.overlay；不填时使用请求中对应页的 overlay 设置
+}
+
+export interface QRCodeElement extends ElementBase, QRCodeStyle {
+  type: "qrcode";
+  text: string;
+}
+
+export type PageElement = TextElement | ImageElement | ShapeElement | OverlayElement | QRCodeElement;
+
+/**
+ * 一页的描述：底图加按 z 排序的元素。文字元素 overflow 为 paginate 时，
+ * 该页按需续排为多页，其余元素在每一页重复出现。
+ */
+export interface PageSpec {
+  kind: PageKind;            // 决定默认底图、页眉页脚/水印的 pages 过滤与默认文件名
+  name?: string;             // 输出文件名（不含扩展名），默认 cover / text_N / ending
+  background?: PageKind | BackgroundConfig;  // 默认使用 kind 对应的模板底图
+  elements: PageElement[];
+}
+
+export interface PaginationConfig {
+  maxPages: number;          // 正文页（text_N.png）总数上限，含续排页
+}
+
 export interface AppConfig {
   fonts: Record<string, FontDef>;
   templates: TemplatesConfig;
   output: OutputConfig;
   title: TitleArray;
   pages: PagesArray;
+  ending: TitleArray;        // 结尾页文字，如引导语、账号、日期；可使用与页眉页脚相同的占位符
+  qrcodes: QRCodeStyle[];    // 结尾页二维码的位置与样式，内容由请求提供
+  header: PageMarkStyle[];
+  footer: PageMarkStyle[];
+  watermark: WatermarkConfig;
+  account: AccountConfig;
   overlay: OverlayArray;
   image: ImageConfig;
+  sizes: Record<string, SizePreset>;
+  pagination: PaginationConfig;
+  emoji: EmojiConfig;
+  figure: FigureStyle;
+  backgrounds: BackgroundsConfig;
+  themes: Record<string, ThemeColors>;
+  theme: string;             // 默认使用的主题名，请求可单独指定
+  layout?: PageSpec[];       // 自定义页面；不设置时由 title/pages/ending 生成封面-正文-结尾
+  shapes: ShapeElement[];    // 默认三段式中的装饰图形（分隔线、角标等），画在贴纸之上、文字之下
+  markdown: MarkdownStyle;   // Markdown 导入时各元素换成的内联标记
 }
 
 export const pageTemplate = {
   x: 100,
   y: 500,
-  width: 1080,
-  height: 1350,
   fontSize: 36,
   lineHeight: 45,
-  color: "#000000",
+  color: "text",
   fontFamily: "Yozai-Regular",
   textAlign: "left" as const,
   maxLines: 10,
   enableInlineMarkup: true,
   charsPerLine: 20,
+  overflow: "clip" as const,
   text:''
 };
 
@@ -104,6 +406,10 @@ export const overlayTemplate:OverlayConfig = {
   scaleRange: [0.1, 0.2],
   rotationRange: [-15, 15],
   alphaRange: [0.75, 1.0],
+  avoidText: true,
+  keepOut: [],
+  margin: 16,
+  allowOverlap: false,
 }
 
 const config = {
@@ -112,16 +418,25 @@ const config = {
       path: "./fonts/Yozai-Regular.ttf",
       family: "Yozai-Regular",
       name: "Yozai-Regular",
+      fallback: ["noto-color-emoji"],
     },
     "yozai-medium": {
       path: "./fonts/Yozai-Medium.ttf",
       family: "Yozai-Medium",
       name: "Yozai-Medium",
+      fallback: ["noto-color-emoji"],
     },
     "yozai-light": {
       path: "./fonts/Yozai-Light.ttf",
       family: "Yozai-Light",
       name: "Yozai-Light",
+      fallback: ["noto-color-emoji"],
+    },
+    "noto-color-emoji": {
+      path: "/usr/share/fonts/truetype/noto/NotoColorEmoji.ttf",
+      family: "Noto Color Emoji",
+      name: "NotoColorEmoji",
+      optional: true,
     },
   },
 
@@ -134,6 +449,8 @@ const config = {
     directory: "output",
     format: "png",
     quality: 0.9,
+    progressive: false,
+    chromaSubsampling: true,
   },
 
   title: [
@@ -141,7 +458,7 @@ const config = {
       x: 300,
       y: 500,
       fontSize: 72,
-      color: "#000000",
+      color: "primary",
       fontFamily: "Yozai-Regular",
       textAlign: "left",
       text: "",
@@ -150,7 +467,7 @@ const config = {
       x: 200,
       y: 650,
       fontSize: 120,
-      color: "#000000",
+      color: "primary",
       fontFamily: "Yozai-Medium",
       textAlign: "left",
       text: "hello",
@@ -159,7 +476,7 @@ const config = {
       x: 300,
       y: 900,
       fontSize: 72,
-      color: "#000000",
+      color: "primary",
       fontFamily: "Yozai-Regular",
       textAlign: "left",
       text: "world!",
@@ -176,6 +493,94 @@ const config = {
     { ...pageTemplate },
   ],
 
+  ending: [
+    {
+      x: 540,
+      y: 300,
+      fontSize: 64,
+      color: "primary",
+      fontFamily: "Yozai-Medium",
+      textAlign: "center",
+      text: "",
+    },
+    {
+      x: 540,
+      y: 420,
+      fontSize: 40,
+      color: "primary",
+      fontFamily: "Yozai-Regular",
+      textAlign: "center",
+      text: "",
+    },
+    {
+      x: 540,
+      y: 1180,
+      fontSize: 32,
+      color: "muted",
+      fontFamily: "Yozai-Regular",
+      textAlign: "center",
+      text: "",
+    },
+  ],
+
+  qrcodes: [
+    {
+      x: 390,
+      y: 620,
+      size: 300,
+      color: "#000000",
+      background: "#ffffff",
+      margin: 2,
+      errorCorrectionLevel: "M",
+    },
+  ],
+
+  // 页眉页脚默认不显示，填入 text 即可启用，如 "{page}/{total}"
+  header: [
+    {
+      x: 540,
+      y: 40,
+      fontSize: 24,
+      color: "muted",
+      fontFamily: "Yozai-Regular",
+      textAlign: "center",
+      text: "",
+      pages: ["text"],
+    },
+  ],
+
+  footer: [
+    {
+      x: 540,
+      y: 1280,
+      fontSize: 24,
+      color: "muted",
+      fontFamily: "Yozai-Regular",
+      textAlign: "center",
+      text: "",
+      pages: ["text"],
+    },
+  ],
+
+  watermark: {
+    enable: false,
+    text: "@{handle}",
+    mode: "tile",
+    corner: "bottom-right",
+    fontSize: 28,
+    fontFamily: "Yozai-Regular",
+    color: "text",
+    opacity: 0.08,
+    rotation: -30,
+    gapX: 160,
+    gapY: 140,
+    margin: 32,
+  },
+
+  account: {
+    handle: "",
+  },
+
   overlay: [
     { ...overlayTemplate},
   ],
@@ -184,6 +589,55 @@ const config = {
     width: 1080,
     height: 1350,
   },
+
+  sizes: {
+    "xhs-3x4": { width: 1080, height: 1440, label: "小红书 3:4" },
+    "xhs-1x1": { width: 1080, height: 1080, label: "小红书 1:1" },
+    "story-9x16": { width: 1080, height: 1920, label: "竖屏 9:16" },
+    "wechat-6x7": { width: 1080, height: 1260, label: "微信视频号图文 6:7" },
+    "instagram-4x5": { width: 1080, height: 1350, label: "Instagram 4:5" },
+    "instagram-1x1": { width: 1080, height: 1080, label: "Instagram 1:1" },
+  },
+
+  // 小红书单篇最多 18 张图，扣除封面与结尾页
+  pagination: {
+    maxPages: 16,
+  },
+
+  // 默认用字体链中的 Noto Color Emoji 绘制；设置 imageDir 后改用该目录中的图片
+  emoji: {},
+
+  figure: {
+    radius: 16,
+    maxHeight: 560,
+    gap: 24,
+    captionFontSize: 26,
+    captionColor: "muted",
+  },
+
+  backgrounds: {
+    mode: "fallback",
+  },
+
+  themes: {
+    default: { primary: "#000000", accent: "#ff4d4f", text: "#000000", muted: "#999999", background: "#ffffff" },
+    warm: { primary: "#5a3e2b", accent: "#c8553d", text: "#3b3b3b", muted: "#a08c7a", background: "#fffaf0" },
+    ocean: { primary: "#0b3c5d", accent: "#1d8fe1", text: "#23313f", muted: "#8aa0b4", background: "#ffffff" },
+    dark: { primary: "#ffffff", accent: "#ffd166", text: "#eeeeee", muted: "#9a9a9a", background: "#1f1f1f" },
+  },
+  theme: "default",
+
+  shapes: [],
+
+  markdown: {
+    headings: ["<b><s:44><c:primary>$</c></s></b>", "<b><c:primary>$</c></b>", "<b>$</b>"],
+    strong: "<b>$</b>",
+    emphasis: "<i>$</i>",
+    strike: "<del>$</del>",
+    code: "<c:accent>$</c>",
+    link: "<u>$</u>",
+    quote: "<c:muted>$</c>",
+  },
 } satisfies AppConfig;
 
 export default config;
@@ -0,0 +1,173 @@
+// fonts.ts
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import type { EmojiConfig, FontDef } from "./config";
+import { PROJECT_ROOT } from "./utils";
+import { classifyGlyph, splitGraphemes } from "./linebreak";
+import { normalizeNewlines, tokenizeInline } from "./markup";
+
+type CodepointRanges = [number, number][];
+
+// 不参与字形覆盖判断的码位：ZWJ、变体选择符、标签字符
+const IGNORABLE_RE = /[\u200d\ufe0e\ufe0f\u{e0020}-\u{e007f}]/u;
+
+const coverageCache = new Map<string, CodepointRanges | null>();
+
+export function resolveFontPath(f: FontDef) {
+  return path.isAbsolute(f.path) ? f.path : path.resolve(PROJECT_ROOT, f.path);
+}
+
+/** 读取 TTF/OTF/TTC 的 cmap 表（format 4 / 12），得到字体覆盖的码位区间 */
+function readCmapRanges(buf: Buffer): CodepointRanges | null {
+  let base = 0;
+  if (buf.toString("latin1", 0, 4) === "ttcf") base = buf.readUInt32BE(12);
+
+  const numTables = buf.readUInt16BE(base + 4);
+  let cmap = -1;
+  for (let t = 0; t < numTables; t++) {
+    const rec = base + 12 + t * 16;
+    if (buf.toString("latin1", rec, rec + 4) === "cmap") {
+      cmap = buf.readUInt32BE(rec + 8);
+      break;
+    }
+  }
+  if (cmap < 0) return null;
+
+  const subtables: { platform: number; encoding: number; offset: number }[] = [];
+  const count = buf.readUInt16BE(cmap + 2);
+  for (let k = 0; k < count; k++) {
+    const rec = cmap + 4 + k * 8;
+    subtables.push({
+      platform: buf.readUInt16BE(rec),
+      encoding: buf.readUInt16BE(rec + 2),
+      offset: cmap + buf.readUInt32BE(rec + 4),
+    });
+  }
+
+  const byFormat = (format: number) => subtables.find(s =>
+    (s.platform === 0 || s.platform === 3) && buf.readUInt16BE(s.offset) === format);
+
+  const ranges: CodepointRanges = [];
+  const f12 = byFormat(12);
+  if (f12) {
+    const groups = buf.readUInt32BE(f12.offset + 12);
+    for (let g = 0; g < groups; g++) {
+      const rec = f12.offset + 16 + g * 12;
+      ranges.push([buf.readUInt32BE(rec), buf.readUInt32BE(rec + 4)]);
+    }
+    return ranges;
+  }
+
+  const f4 = byFormat(4);
+  if (f4) {
+    const segX2 = buf.readUInt16BE(f4.offset + 6);
+    const endBase = f4.offset + 14;
+    const startBase = endBase + segX2 + 2;
+    for (let k = 0; k < segX2; k += 2) {
+      const end = buf.readUInt16BE(endBase + k);
+      const start = buf.readUInt16BE(startBase + k);
+      if (start === 0xffff) continue;
+      ranges.push([start, end]);
+    }
+    return ranges;
+  }
+  return null;
+}
+
+/** 字体文件缺失或无法解析时返回 null，视为"未知覆盖" */
+export function fontCoverage(f: FontDef): CodepointRanges | null {
+  const abs = resolveFontPath(f);
+  if (coverageCache.has(abs)) return coverageCache.get(abs)!;
+
+  let ranges: CodepointRanges | null = null;
+  try {
+    if (fssync.existsSync(abs)) ranges = readCmapRanges(fssync.readFileSync(abs));
+  } catch (e) {
+    console.warn(`Font cmap warning for ${abs}:`, (e as Error).message);
+  }
+  if (ranges) ranges.sort((a, b) => a[0] - b[0]);
+  coverageCache.set(abs, ranges);
+  return ranges;
+}
+
+function rangesInclude(ranges: CodepointRanges, cp: number) {
+  let lo = 0, hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (cp < ranges[mid][0]) hi = mid - 1;
+    else if (cp > ranges[mid][1]) lo = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+function fontHasGlyph(f: FontDef, grapheme: string) {
+  const ranges = fontCoverage(f);
+  if (!ranges) return undefined;
+  return Array.from(grapheme)
+    .filter(ch => !IGNORABLE_RE.test(ch))
+    .every(ch => rangesInclude(ranges, ch.codePointAt(0)!));
+}
+
+/** 主字体及其 fallback（递归展开、去重）组成的字体链 */
+export function fontChain(family: string, fonts: Record<string, FontDef> | undefined): FontDef[] {
+  if (!fonts) return [];
+  const chain: FontDef[] = [];
+  const visit = (def: FontDef | undefined) => {
+    if (!def || chain.includes(def)) return;
+    chain.push(def);
+    (def.fallback ?? []).forEach(key => visit(fonts[key]));
+  };
+  visit(Object.values(fonts).find(f => f.family === family));
+  return chain;
+}
+
+/**
+ * 为单个字素选择字体：依次取字体链中第一个真正包含该字形的字体；
+ * 都不包含（或覆盖信息未知）时保持主字体。
+ */
+export function pickFontFamily(grapheme: string, family: string, fonts: Record<string, FontDef> | undefined) {
+  if (/^\s+$/.test(grapheme)) return family;
+  const chain = fontChain(family, fonts);
+  for (const def of chain) {
+    const has = fontHasGlyph(def, grapheme);
+    if (has === true) return def.family;
+    if (has === undefined && def.family === family) return family;
+  }
+  return family;
+}
+
+/** Twemoji 风格的文件名：码位十六进制以 "-" 连接，去掉 FE0F */
+export function emojiSpriteNames(grapheme: string) {
+  const cps = Array.from(grapheme).map(ch => ch.codePointAt(0)!.toString(16));
+  const names = [cps.filter(cp => cp !== "fe0f").join("-"), cps.join("-")];
+  return Array.from(new Set(names)).map(n => `${n}.png`);
+}
+
+/** 文本中出现的 emoji 在图片目录里对应的文件，没有图片的 emoji 不在结果中 */
+export async function emojiSpriteFiles(texts: string[], emoji: EmojiConfig | undefined): Promise<Map<string, string>> {
+  const sprites = new Map<string, string>();
+  if (!emoji?.imageDir) return sprites;
+  const dir = path.isAbsolute(emoji.imageDir) ? emoji.imageDir : path.resolve(PROJECT_ROOT, emoji.imageDir);
+  if (!fssync.existsSync(dir)) return sprites;
+
+  const graphemes = new Set<string>();
+  for (const text of texts) {
+    for (const tok of tokenizeInline(normalizeNewlines(text ?? ""))) {
+      if (tok.type !== "text") continue;
+      splitGraphemes(tok.text).filter(g => classifyGlyph(g) === "emoji").forEach(g => graphemes.add(g));
+    }
+  }
+
+  for (const g of graphemes) {
+    for (const name of emojiSpriteNames(g)) {
+      const abs = path.join(dir, name);
+      const st = await fs.stat(abs).catch(() => null);
+      if (!st) continue;
+      sprites.set(g, abs);
+      break;
+    }
+  }
+  return sprites;
+}
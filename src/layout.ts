@@ -0,0 +1,892 @@
+// layout.ts
+import type { CanvasGradient, CanvasRenderingContext2D, Image } from "canvas";
+import type { BaseTextStyle, BlockStyle, FigureStyle, FontDef, LineBreakOptions, Rect, TextFit, TextFrame, TextGradient, TextPlate, ThemeColors } from "./config";
+import { parseBlocks, type CellAlign, type ListBlock, type ListMarkerKind, type TableBlock } from "./blocks";
+import { breakParagraph, classifyGlyph, splitGraphemes, type GlyphKind } from "./linebreak";
+import { normalizeNewlines, parseInline, type InlineStyle } from "./markup";
+import { pickFontFamily } from "./fonts";
+
+export type RichBlockStyle =
+  Required<Pick<BaseTextStyle, "x"|"y"|"fontFamily"|"fontSize"|"lineHeight"|"textAlign"|"color">> &
+  Pick<BaseTextStyle, "stroke"|"shadow"|"gradient"|"plate"|"writingMode"|"blocks"> & {
+    maxLines?: number;
+    charsPerLine?: number;
+    width?: number;
+    height?: number;
+    /** 内联 <s:NN> 字号的缩放倍数（自动适配字号时使用） */
+    inlineScale?: number;
+    lineBreak?: LineBreakOptions;
+    enableInlineMarkup?: boolean;
+    /** 供 <f:FontKey> 查找字体，以及按字形选择 fallback 字体 */
+    fonts?: Record<string, FontDef>;
+    /** 内联颜色中的主题角色名按此取色 */
+    theme?: ThemeColors;
+    /** emoji 字素 -> 图片，存在时以图片代替字体绘制 */
+    emojiImages?: Map<string, Image>;
+    /** <img:name> 可引用的插图 */
+    images?: Map<string, FigureSource>;
+    figure?: FigureStyle;
+  };
+
+/** 正文插图：宽度撑满文本框并按比例缩放，可带圆角与图注 */
+export interface FigureSource {
+  image: Image;
+  radius?: number;
+  caption?: string;
+}
+
+export interface LayoutFigure extends FigureSource {
+  width: number;
+  height: number;
+  /** 图片与上下文字的间距 */
+  gap: number;
+  /** 连同间距与图注在内占用的高度 */
+  advance: number;
+}
+
+/**
+ * 文字块未设置字号与每行字数时的默认值，渲染与模板检查共用；
+ * 默认三段式中的正文页用 BODY_TEXT_DEFAULTS，页眉页脚用 PAGE_MARK_DEFAULTS
+ */
+export const TEXT_DEFAULTS = { fontSize: 36, charsPerLine: 20 };
+export const BODY_TEXT_DEFAULTS = { fontSize: 32, charsPerLine: 24 };
+export const PAGE_MARK_DEFAULTS = { fontSize: 24, charsPerLine: 40 };
+
+/** 未设置 lineHeight 时的行高 */
+export function defaultLineHeight(fontSize: number) {
+  return Math.round(fontSize * 1.4);
+}
+
+/** 排版后的单个字素（已解析出颜色、字号与宽度） */
+export interface LayoutGlyph extends Pick<InlineStyle,
+  "bold"|"italic"|"underline"|"strike"|"background"|"stroke"|"shadow"|"gradient"|"plate"|"frame"> {
+  text: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+  width: number;
+  kind: GlyphKind;
+  image?: Image;
+  /** 竖排时的摆放方式：直立、旋转 90°、句读靠右上角 */
+  orientation?: VerticalOrientation;
+  /** 与下一个字形属于同一拉丁单词，两端对齐时不在其间加空隙 */
+  joinNext?: boolean;
+}
+
+/** 列表项首行前的符号：编号、圆点或复选框，右端对齐到文字左侧 */
+export interface ListMarker {
+  kind: ListMarkerKind;
+  label: string;
+  checked?: boolean;
+  glyph: LayoutGlyph;
+  color: string;
+  width: number;
+}
+
+export interface LayoutTable {
+  columns: number[];
+  align: CellAlign[];
+  padX: number;
+  padY: number;
+  style: BlockStyle;
+}
+
+/** 表格的一行：各单元格分别断行，行高取最高的单元格 */
+export interface LayoutTableRow {
+  table: LayoutTable;
+  cells: LayoutLine[][];
+  height: number;
+  header: boolean;
+}
+
+export interface LayoutLine {
+  glyphs: LayoutGlyph[];
+  width: number;
+  maxFontSize: number;
+  /** 段落最后一行（两端对齐时不拉伸） */
+  paragraphEnd: boolean;
+  /** 插图独占一行，此时 glyphs 为空 */
+  figure?: LayoutFigure;
+  /** 列表项的行：文字相对文本框左侧的缩进（悬挂缩进），首行带 marker */
+  indent?: number;
+  marker?: ListMarker;
+  /** 表格行，此时 glyphs 为空 */
+  row?: LayoutTableRow;
+}
+
+type VerticalOrientation = "upright" | "rotate" | "corner";
+
+// 竖排时需要旋转的括号、破折号、省略号等；句读移到字框右上角
+const VERTICAL_ROTATE = new Set(Array.from("（）「」『』【】《》〈〉〔〕…‥—～ー-–()[]{}<>"));
+const VERTICAL_CORNER = new Set(Array.from("，。、．"));
+
+function verticalOrientation(ch: string, kind: GlyphKind): VerticalOrientation {
+  if (VERTICAL_CORNER.has(ch)) return "corner";
+  if (VERTICAL_ROTATE.has(ch) || kind === "word" || kind === "space") return "rotate";
+  return "upright";
+}
+
+function isVertical(base: RichBlockStyle) {
+  return base.writingMode === "vertical-rl";
+}
+
+export function fontString(fontSize: number, fontFamily: string, style: { bold?: boolean; italic?: boolean } = {}) {
+  return `${style.italic ? "italic " : ""}${style.bold ? "bold " : ""}${fontSize}px "${fontFamily}"`;
+}
+
+function sameEffect<T>(a: T | undefined, b: T | undefined) {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameRun(a: LayoutGlyph, b: LayoutGlyph) {
+  return !a.image && !b.image && a.color === b.color && a.fontSize === b.fontSize && a.fontFamily === b.fontFamily
+    && !!a.bold === !!b.bold && !!a.italic === !!b.italic
+    && sameEffect(a.stroke, b.stroke) && sameEffect(a.shadow, b.shadow) && sameEffect(a.gradient, b.gradient);
+}
+
+/** 把一行字形按 same 划分为连续分组 */
+function glyphGroups(glyphs: LayoutGlyph[], same: (a: LayoutGlyph, b: LayoutGlyph, prev: LayoutGlyph) => boolean) {
+  const groups: [number, number][] = [];
+  for (let i = 0; i < glyphs.length;) {
+    let j = i + 1;
+    while (j < glyphs.length && same(glyphs[j], glyphs[i], glyphs[j - 1])) j++;
+    groups.push([i, j]);
+    i = j;
+  }
+  return groups;
+}
+
+export function roundRectPath(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  const radius = Math.max(0, Math.min(r, w / 2, h / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, frame: TextFrame, left: number, right: number, baselineY: number, size: number) {
+  const pad = size * 0.18;
+  const x = left - pad;
+  const y = baselineY - size * 0.88 - pad;
+  const w = right - left + pad * 2;
+  const h = size + pad * 2;
+  ctx.save();
+  ctx.strokeStyle = frame.color;
+  ctx.lineWidth = frame.width ?? Math.max(2, Math.round(size / 14));
+  if (frame.shape === "box") {
+    roundRectPath(ctx, x, y, w, h, size * 0.15);
+  } else {
+    // 椭圆略大于文字框，使四角的字也落在圈内
+    ctx.beginPath();
+    ctx.ellipse(x + w / 2, y + h / 2, w / 2 * 1.12, h / 2 * 1.2, 0, 0, Math.PI * 2);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawPlate(ctx: CanvasRenderingContext2D, plate: TextPlate, left: number, right: number, baselineY: number, size: number) {
+  const padX = plate.paddingX ?? size * 0.3;
+  const padY = plate.paddingY ?? size * 0.15;
+  const top = baselineY - size * 0.88 - padY;
+  const height = size * 1.1 + padY * 2;
+  ctx.fillStyle = plate.color;
+  roundRectPath(ctx, left - padX, top, right - left + padX * 2, height, plate.radius ?? height / 2);
+  ctx.fill();
+}
+
+/** 按字形效果绘制一段文字：投影、外描边、填充 */
+function paintText(
+  ctx: CanvasRenderingContext2D,
+  g: LayoutGlyph,
+  text: string,
+  x: number,
+  y: number,
+  fill: string | CanvasGradient
+) {
+  ctx.font = fontString(g.fontSize, g.fontFamily, g);
+
+  // 投影只加在第一次绘制上（有描边时为描边），避免叠出两层阴影
+  ctx.save();
+  if (g.shadow) {
+    ctx.shadowColor = g.shadow.color;
+    ctx.shadowOffsetX = g.shadow.offsetX ?? 0;
+    ctx.shadowOffsetY = g.shadow.offsetY ?? 0;
+    ctx.shadowBlur = g.shadow.blur ?? 0;
+  }
+  if (g.stroke && g.stroke.width > 0) {
+    // 描边以轮廓为中心，线宽取两倍再用填充盖住内侧，得到外描边
+    ctx.strokeStyle = g.stroke.color;
+    ctx.lineWidth = g.stroke.width * 2;
+    ctx.lineJoin = "round";
+    ctx.strokeText(text, x, y);
+    ctx.shadowColor = "transparent";
+  }
+  ctx.fillStyle = fill;
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
+
+export function gradientFill(
+  ctx: CanvasRenderingContext2D,
+  gradient: TextGradient,
+  box: { left: number; right: number; top: number; bottom: number }
+) {
+  const rad = (gradient.angle ?? 0) * Math.PI / 180;
+  const cx = (box.left + box.right) / 2;
+  const cy = (box.top + box.bottom) / 2;
+  const half = (Math.abs(Math.cos(rad)) * (box.right - box.left) + Math.abs(Math.sin(rad)) * (box.bottom - box.top)) / 2;
+  const dx = Math.cos(rad) * half;
+  const dy = Math.sin(rad) * half;
+  const fill = ctx.createLinearGradient(cx - dx, cy - dy, cx + dx, cy + dy);
+  gradient.colors.forEach((c, k) => fill.addColorStop(gradient.colors.length === 1 ? 0 : k / (gradient.colors.length - 1), c));
+  return fill;
+}
+
+const ascentCache = new Map<string, number>();
+
+function fontAscent(ctx: CanvasRenderingContext2D, fontSize: number, fontFamily: string) {
+  const font = fontString(fontSize, fontFamily);
+  const cached = ascentCache.get(font);
+  if (cached !== undefined) return cached;
+  ctx.font = font;
+  ctx.textBaseline = "alphabetic";
+  const ascent = ctx.measureText("Hg国").actualBoundingBoxAscent || fontSize * 0.88;
+  ascentCache.set(font, ascent);
+  return ascent;
+}
+
+function lineAdvance(line: LayoutLine, base: RichBlockStyle) {
+  if (line.figure) return line.figure.advance;
+  if (line.row) return line.row.height;
+  if (line.maxFontSize <= base.fontSize) return base.lineHeight;
+  return Math.round(base.lineHeight * line.maxFontSize / base.fontSize);
+}
+
+function captionSize(base: RichBlockStyle) {
+  return base.figure?.captionFontSize ?? Math.round(base.fontSize * 0.75);
+}
+
+/** 插图按文本框宽度缩放，超过 maxHeight（或文本框高度）时再等比缩小 */
+export function layoutFigure(source: FigureSource, base: RichBlockStyle): LayoutLine {
+  const { width: iw, height: ih } = source.image;
+  let width = base.width ?? iw;
+  let height = iw > 0 ? width * ih / iw : 0;
+  const maxHeight = Math.min(base.figure?.maxHeight ?? Infinity, base.height ?? Infinity);
+  if (height > maxHeight) {
+    width = width * maxHeight / height;
+    height = maxHeight;
+  }
+  const gap = base.figure?.gap ?? Math.round(base.lineHeight / 2);
+  const captionH = source.caption ? Math.round(captionSize(base) * 1.6) : 0;
+  return {
+    glyphs: [],
+    width,
+    maxFontSize: base.fontSize,
+    paragraphEnd: true,
+    figure: { ...source, width, height, gap, advance: Math.ceil(height + captionH + gap * 2) },
+  };
+}
+
+/**
+ * 按像素宽度排版：逐字测量宽度，超出 width 时按断行规则换行；
+ * 未设置 width 时退回按 charsPerLine 字数换行。
+ * 竖排时 LayoutGlyph.width 记录的是纵向步进，按 height 换列，行即为列。
+ */
+export function layoutRichText(
+  ctx: CanvasRenderingContext2D,
+  content: string,
+  base: RichBlockStyle,
+  warnings?: string[]
+): LayoutLine[] {
+  content = normalizeNewlines(content);
+  const scale = base.inlineScale ?? 1;
+  const spans = base.enableInlineMarkup === false
+    ? [{ text: content }]
+    : parseInline(content, { color: base.color, fontSize: base.fontSize / scale, fontFamily: base.fontFamily },
+      { fonts: base.fonts, theme: base.theme, warnings });
+
+  // 段落与插图按出现顺序排列，插图前后的段落各自断行
+  const blocks: (LayoutGlyph[] | LayoutLine)[] = [[]];
+  let afterFigure = false;
+  for (const sp of spans) {
+    const { text, image: figureName, ...style } = sp;
+    if (figureName !== undefined) {
+      const source = base.images?.get(figureName);
+      if (!source) {
+        warnings?.push(`Unknown image <img:${figureName}>`);
+        continue;
+      }
+      if (isVertical(base)) {
+        warnings?.push(`Images are not supported in vertical writing mode <img:${figureName}>`);
+        continue;
+      }
+      const last = blocks[blocks.length - 1];
+      if (Array.isArray(last) && last.length === 0) blocks.pop();
+      blocks.push(layoutFigure(source, base), []);
+      afterFigure = true;
+      continue;
+    }
+    const fontSize = style.fontSize !== undefined ? style.fontSize * scale : base.fontSize;
+    const primaryFamily = style.fontFamily ?? base.fontFamily;
+    const color = style.color ?? base.color;
+
+    for (const ch of splitGraphemes(text)) {
+      if (ch === "\n") {
+        // 紧跟插图的换行只用于分隔，不产生空行
+        if (!afterFigure) blocks.push([]);
+        afterFigure = false;
+        continue;
+      }
+      afterFigure = false;
+      const kind = classifyGlyph(ch);
+      const image = kind === "emoji" ? base.emojiImages?.get(ch) : undefined;
+      const fontFamily = pickFontFamily(ch, primaryFamily, base.fonts);
+      const font = fontString(fontSize, fontFamily, style);
+      if (ctx.font !== font) ctx.font = font;
+      const orientation = isVertical(base) ? verticalOrientation(ch, kind) : undefined;
+      const width = image || (orientation && orientation !== "rotate") ? fontSize : ctx.measureText(ch).width;
+      (blocks[blocks.length - 1] as LayoutGlyph[]).push({
+        ...style, text: ch, color, fontSize, fontFamily, width, kind, image, orientation,
+        stroke: style.stroke ?? base.stroke,
+        shadow: style.shadow ?? base.shadow,
+        gradient: style.gradient ?? base.gradient,
+      });
+    }
+  }
+
+  const lineLimit = isVertical(base) ? base.height : base.width;
+  const byWidth = lineLimit !== undefined;
+  const limit = lineLimit ?? (base.charsPerLine ?? TEXT_DEFAULTS.charsPerLine);
+  const size = (g: LayoutGlyph) => byWidth ? g.width : 1;
+  const hyphen = (g: LayoutGlyph): LayoutGlyph => {
+    ctx.font = fontString(g.fontSize, g.fontFamily, g);
+    return { ...g, text: "-", width: ctx.measureText("-").width, kind: "word", image: undefined, joinNext: false };
+  };
+
+  const last = blocks[blocks.length - 1];
+  if (blocks.length > 1 && Array.isArray(last) && last.length === 0) blocks.pop();
+
+  if (!base.blocks || base.blocks.enabled === false || isVertical(base)) {
+    return blocks.flatMap(block => Array.isArray(block)
+      ? breakParagraph(block, limit, size, hyphen, base.lineBreak, base.fontSize)
+      : [block]);
+  }
+
+  // 列表项按缩进减小可用宽度后断行，续行与首行文字对齐
+  const style = base.blocks;
+  const structured = parseBlocks(blocks);
+  const markers = new Map<ListBlock, ListMarker>();
+  for (const block of structured) {
+    if ("type" in block && block.type === "list") markers.set(block, listMarker(ctx, block, style));
+  }
+  const markerBox = Math.max(base.fontSize * 1.5, ...[...markers.values()].map(m => m.width + base.fontSize * MARKER_GAP));
+
+  return structured.flatMap((block): LayoutLine[] => {
+    if (!("type" in block)) return [block];
+    if (block.type === "text") return breakParagraph(block.glyphs, limit, size, hyphen, base.lineBreak, base.fontSize);
+    if (block.type === "table") return layoutTable(ctx, block, base, hyphen);
+    const indent = (block.level + 1) * markerBox;
+    const room = byWidth ? limit - indent : Math.max(1, limit - Math.round(indent / base.fontSize));
+    return breakParagraph(block.glyphs, room, size, hyphen, base.lineBreak, base.fontSize)
+      .map((line, k) => ({ ...line, indent, marker: k === 0 ? markers.get(block) : undefined }));
+  });
+}
+
+// 列表符号与文字的间距、复选框边长（字号倍数）
+const MARKER_GAP = 0.4;
+const CHECKBOX_SIZE = 0.78;
+
+function measureGlyphText(ctx: CanvasRenderingContext2D, g: LayoutGlyph, text: string) {
+  ctx.font = fontString(g.fontSize, g.fontFamily, g);
+  return ctx.measureText(text).width;
+}
+
+function listMarker(ctx: CanvasRenderingContext2D, block: ListBlock, style: BlockStyle): ListMarker {
+  const glyph = block.markerGlyph;
+  const label = block.kind === "bullet" ? style.bullet ?? "•" : block.label;
+  return {
+    kind: block.kind,
+    label,
+    checked: block.checked,
+    glyph,
+    color: style.markerColor ?? glyph.color,
+    width: block.kind === "check" ? glyph.fontSize * CHECKBOX_SIZE : measureGlyphText(ctx, glyph, label),
+  };
+}
+
+/**
+ * 表格铺满文本框宽度（未设置 width 时按 charsPerLine 估算），列宽按各列最宽内容分配，
+ * 每列至少为平均列宽的一半；单元格内按列宽断行。
+ */
+function layoutTable(
+  ctx: CanvasRenderingContext2D,
+  block: TableBlock,
+  base: RichBlockStyle,
+  hyphen: (g: LayoutGlyph) => LayoutGlyph
+): LayoutLine[] {
+  const cols = Math.max(...block.rows.map(r => r.length));
+  const padX = Math.round(base.fontSize * 0.4);
+  const padY = Math.round(base.fontSize * 0.3);
+  const bold = (g: LayoutGlyph) => g.bold || g.image ? g : { ...g, bold: true, width: measureGlyphText(ctx, { ...g, bold: true }, g.text) };
+  const rows = block.rows.map((cells, r) => Array.from({ length: cols }, (_, c) =>
+    block.header && r === 0 ? (cells[c] ?? []).map(bold) : cells[c] ?? []));
+
+  const available = base.width ?? (base.charsPerLine ?? TEXT_DEFAULTS.charsPerLine) * base.fontSize;
+  const floor = available / cols / 2;
+  const natural = Array.from({ length: cols }, (_, c) =>
+    Math.max(floor, ...rows.map(cells => cells[c].reduce((w, g) => w + g.width, 0) + padX * 2)));
+  const total = natural.reduce((a, b) => a + b, 0);
+  // 放得下时按比例放大；放不下时只压缩超出下限的部分，窄列保持下限
+  const shrinkable = total - floor * cols;
+  const columns = total <= available
+    ? natural.map(w => w * available / total)
+    : natural.map(w => w - (w - floor) * (total - available) / shrinkable);
+  const table: LayoutTable = {
+    columns,
+    align: Array.from({ length: cols }, (_, c) => block.align[c] ?? "left"),
+    padX,
+    padY,
+    style: base.blocks ?? {},
+  };
+
+  return rows.map((cells, r) => {
+    const laid = cells.map((glyphs, c) =>
+      breakParagraph(glyphs, Math.max(1, table.columns[c] - padX * 2), g => g.width, hyphen, base.lineBreak, base.fontSize));
+    const height = Math.max(base.lineHeight, ...laid.map(lines => measureBlockHeight(lines, base))) + padY * 2;
+    return {
+      glyphs: [],
+      width: available,
+      maxFontSize: base.fontSize,
+      paragraphEnd: true,
+      row: { table, cells: laid, height, header: block.header && r === 0 },
+    };
+  });
+}
+
+export function drawLayoutLines(ctx: CanvasRenderingContext2D, lines: LayoutLine[], base: RichBlockStyle) {
+  if (isVertical(base)) return drawVerticalLines(ctx, lines, base);
+  let top = base.y;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+
+  lines.forEach((line, k) => {
+    if (line.figure) {
+      drawFigure(ctx, line.figure, base, top);
+    } else if (line.row) {
+      drawTableRow(ctx, line.row, base, top, lines[k - 1]?.row?.table !== line.row.table);
+    } else {
+      const baselineY = top + fontAscent(ctx, line.maxFontSize, base.fontFamily);
+      if (line.indent === undefined) {
+        drawTextLine(ctx, line, base, baselineY, base.x, base.width, base.textAlign);
+      } else {
+        // 列表项总是从缩进处左对齐（两端对齐除外），符号画在缩进内
+        const origin = base.x + line.indent;
+        const boxW = base.width !== undefined ? base.width - line.indent : undefined;
+        drawTextLine(ctx, line, base, baselineY, origin, boxW, base.textAlign === "justify" ? "justify" : "left");
+        if (line.marker) drawListMarker(ctx, line.marker, origin - line.marker.glyph.fontSize * MARKER_GAP, baselineY);
+      }
+    }
+    top += lineAdvance(line, base);
+  });
+}
+
+/** 绘制一行文字：origin 与 boxW 为对齐所依据的文本框（boxW 未定义时 origin 为对齐点） */
+function drawTextLine(
+  ctx: CanvasRenderingContext2D,
+  line: LayoutLine,
+  base: RichBlockStyle,
+  baselineY: number,
+  origin: number,
+  boxW: number | undefined,
+  align: RichBlockStyle["textAlign"]
+) {
+  let startX = origin;
+  let gap = 0;
+  if (align === "center") {
+    startX = boxW !== undefined ? origin + (boxW - line.width) / 2 : origin - line.width / 2;
+  } else if (align === "right") {
+    startX = boxW !== undefined ? origin + boxW - line.width : origin - line.width;
+  } else if (align === "justify" && boxW !== undefined && !line.paragraphEnd) {
+    // 拉丁单词内部不拉伸，只在字与字、词与词之间分配空隙
+    const slots = line.glyphs.slice(0, -1).filter(g => !g.joinNext).length;
+    if (slots > 0) gap = Math.max(0, boxW - line.width) / slots;
+  }
+
+  const xs: number[] = [];
+  let cursorX = startX;
+  line.glyphs.forEach((g, k) => {
+    xs.push(cursorX);
+    cursorX += g.width;
+    if (k < line.glyphs.length - 1 && !g.joinNext) cursorX += gap;
+  });
+  const glyphEnd = (k: number) => xs[k] + line.glyphs[k].width;
+  const maxSize = (i: number, j: number) => line.glyphs.slice(i, j).reduce((m, x) => Math.max(m, x.fontSize), 0);
+
+  // 底板：整行底板在最下层，其上是内联 <plate> 与荧光笔底色
+  if (base.plate && line.glyphs.length > 0) {
+    drawPlate(ctx, base.plate, xs[0], glyphEnd(line.glyphs.length - 1), baselineY, line.maxFontSize);
+  }
+  for (const [i, j] of glyphGroups(line.glyphs, (a, b) => sameEffect(a.plate, b.plate))) {
+    const plate = line.glyphs[i].plate;
+    if (plate) drawPlate(ctx, plate, xs[i], glyphEnd(j - 1), baselineY, maxSize(i, j));
+  }
+  for (const [i, j] of glyphGroups(line.glyphs, (a, b) => a.background === b.background)) {
+    const bg = line.glyphs[i].background;
+    if (!bg) continue;
+    const size = maxSize(i, j);
+    ctx.fillStyle = bg;
+    ctx.fillRect(xs[i], baselineY - size * 0.5, glyphEnd(j - 1) - xs[i], size * 0.65);
+  }
+
+  // 渐变按连续使用同一渐变的字形范围整体铺开
+  const gradientBoxes = new Map<number, { left: number; right: number; top: number; bottom: number }>();
+  for (const [i, j] of glyphGroups(line.glyphs, (a, b) => sameEffect(a.gradient, b.gradient))) {
+    if (!line.glyphs[i].gradient) continue;
+    const size = maxSize(i, j);
+    const box = { left: xs[i], right: glyphEnd(j - 1), top: baselineY - size * 0.88, bottom: baselineY + size * 0.12 };
+    for (let k = i; k < j; k++) gradientBoxes.set(k, box);
+  }
+
+  // 合并相同样式的连续字形为一次 fillText，保留字偶距；两端对齐时只合并同一单词内的字形
+  const runs = glyphGroups(line.glyphs, (a, b, prev) => (gap === 0 || !!prev.joinNext) && sameRun(a, b));
+  for (const [i, j] of runs) {
+    const g = line.glyphs[i];
+    const text = line.glyphs.slice(i, j).map(x => x.text).join("");
+    if (g.image) {
+      ctx.drawImage(g.image, xs[i], baselineY - g.fontSize * 0.85, g.fontSize, g.fontSize);
+      continue;
+    }
+    const box = gradientBoxes.get(i);
+    paintText(ctx, g, text, xs[i], baselineY, g.gradient && box ? gradientFill(ctx, g.gradient, box) : g.color);
+  }
+
+  // 下划线与删除线
+  for (const [flag, offset] of [["underline", 0.12], ["strike", -0.3]] as const) {
+    for (const [i, j] of glyphGroups(line.glyphs, (a, b) => !!a[flag] === !!b[flag] && a.color === b.color)) {
+      const g = line.glyphs[i];
+      if (!g[flag]) continue;
+      const size = maxSize(i, j);
+      const thickness = Math.max(1, Math.round(size / 16));
+      ctx.fillStyle = g.color;
+      ctx.fillRect(xs[i], baselineY + size * offset - thickness / 2, glyphEnd(j - 1) - xs[i], thickness);
+    }
+  }
+
+  // 圈注画在最上层
+  for (const [i, j] of glyphGroups(line.glyphs, (a, b) => sameEffect(a.frame, b.frame))) {
+    const frame = line.glyphs[i].frame;
+    if (frame) drawFrame(ctx, frame, xs[i], glyphEnd(j - 1), baselineY, maxSize(i, j));
+  }
+}
+
+function drawListMarker(ctx: CanvasRenderingContext2D, marker: ListMarker, right: number, baselineY: number) {
+  const size = marker.glyph.fontSize;
+  if (marker.kind !== "check") {
+    paintText(ctx, marker.glyph, marker.label, right - marker.width, baselineY, marker.color);
+    return;
+  }
+  const side = size * CHECKBOX_SIZE;
+  const x = right - side;
+  const y = baselineY - side * 0.95;
+  ctx.save();
+  ctx.strokeStyle = marker.color;
+  ctx.lineWidth = Math.max(2, size / 14);
+  roundRectPath(ctx, x, y, side, side, side * 0.18);
+  ctx.stroke();
+  if (marker.checked) {
+    ctx.lineWidth *= 1.4;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(x + side * 0.22, y + side * 0.52);
+    ctx.lineTo(x + side * 0.43, y + side * 0.72);
+    ctx.lineTo(x + side * 0.8, y + side * 0.28);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** 表格行：表头底色、单元格文字、表格线；与上一行属于同一张表时不重复画上边线 */
+function drawTableRow(ctx: CanvasRenderingContext2D, row: LayoutTableRow, base: RichBlockStyle, top: number, first: boolean) {
+  const { table } = row;
+  const left = base.x;
+  const width = table.columns.reduce((a, b) => a + b, 0);
+  const borderColor = table.style.borderColor ?? base.theme?.muted ?? "#999999";
+  const borderWidth = table.style.borderWidth ?? Math.max(1, Math.round(base.fontSize / 20));
+
+  if (row.header) {
+    ctx.save();
+    ctx.fillStyle = table.style.headerBackground ?? borderColor;
+    if (!table.style.headerBackground) ctx.globalAlpha = 0.15;
+    ctx.fillRect(left, top, width, row.height);
+    ctx.restore();
+  }
+
+  // 整行底板不用于单元格
+  const cellBase = { ...base, plate: undefined };
+  let cellX = left;
+  row.cells.forEach((lines, c) => {
+    const colW = table.columns[c];
+    let lineTop = top + table.padY;
+    for (const line of lines) {
+      const baselineY = lineTop + fontAscent(ctx, line.maxFontSize, base.fontFamily);
+      drawTextLine(ctx, line, cellBase, baselineY, cellX + table.padX, colW - table.padX * 2, table.align[c]);
+      lineTop += lineAdvance(line, base);
+    }
+    cellX += colW;
+  });
+
+  if (borderWidth <= 0) return;
+  ctx.save();
+  ctx.strokeStyle = borderColor;
+  ctx.lineWidth = borderWidth;
+  ctx.beginPath();
+  if (first) {
+    ctx.moveTo(left, top);
+    ctx.lineTo(left + width, top);
+  }
+  ctx.moveTo(left, top + row.height);
+  ctx.lineTo(left + width, top + row.height);
+  let x = left;
+  for (const colW of [0, ...table.columns]) {
+    x += colW;
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, top + row.height);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawFigure(ctx: CanvasRenderingContext2D, fig: LayoutFigure, base: RichBlockStyle, top: number) {
+  let left = base.x;
+  if (base.width !== undefined) left = base.x + (base.width - fig.width) / 2;
+  else if (base.textAlign === "center") left = base.x - fig.width / 2;
+  else if (base.textAlign === "right") left = base.x - fig.width;
+  const imageTop = top + fig.gap;
+
+  ctx.save();
+  roundRectPath(ctx, left, imageTop, fig.width, fig.height, fig.radius ?? base.figure?.radius ?? 0);
+  ctx.clip();
+  ctx.drawImage(fig.image, left, imageTop, fig.width, fig.height);
+  ctx.restore();
+
+  if (fig.caption) {
+    const size = captionSize(base);
+    ctx.save();
+    ctx.font = fontString(size, base.fontFamily);
+    ctx.fillStyle = base.figure?.captionColor ?? base.color;
+    ctx.textAlign = "center";
+    ctx.fillText(fig.caption, left + fig.width / 2, imageTop + fig.height + size * 1.2);
+    ctx.restore();
+  }
+}
+
+/**
+ * 竖排绘制：列从右向左排列，textAlign 控制列内的纵向对齐（left=顶端、right=底端）。
+ * 有 width 时首列贴文本框右边，否则 x 为首列右边。
+ */
+function drawVerticalLines(ctx: CanvasRenderingContext2D, lines: LayoutLine[], base: RichBlockStyle) {
+  let right = base.width !== undefined ? base.x + base.width : base.x;
+  const boxH = base.height;
+  ctx.textBaseline = "alphabetic";
+
+  for (const line of lines) {
+    const advance = lineAdvance(line, base);
+    const cx = right - advance / 2;
+
+    let startY = base.y;
+    let gap = 0;
+    if (base.textAlign === "center") {
+      startY = boxH !== undefined ? base.y + (boxH - line.width) / 2 : base.y - line.width / 2;
+    } else if (base.textAlign === "right") {
+      startY = boxH !== undefined ? base.y + boxH - line.width : base.y - line.width;
+    } else if (base.textAlign === "justify" && boxH !== undefined && !line.paragraphEnd) {
+      const slots = line.glyphs.slice(0, -1).filter(g => !g.joinNext).length;
+      if (slots > 0) gap = Math.max(0, boxH - line.width) / slots;
+    }
+
+    const ys: number[] = [];
+    let cursorY = startY;
+    line.glyphs.forEach((g, k) => {
+      ys.push(cursorY);
+      cursorY += g.width;
+      if (k < line.glyphs.length - 1 && !g.joinNext) cursorY += gap;
+    });
+    const glyphEnd = (k: number) => ys[k] + line.glyphs[k].width;
+    const half = line.maxFontSize / 2;
+
+    if (base.plate && line.glyphs.length > 0) {
+      const padX = base.plate.paddingX ?? line.maxFontSize * 0.15;
+      const padY = base.plate.paddingY ?? line.maxFontSize * 0.3;
+      const w = line.maxFontSize + padX * 2;
+      const h = glyphEnd(line.glyphs.length - 1) - ys[0] + padY * 2;
+      ctx.fillStyle = base.plate.color;
+      roundRectPath(ctx, cx - w / 2, ys[0] - padY, w, h, base.plate.radius ?? w / 2);
+      ctx.fill();
+    }
+    for (const [i, j] of glyphGroups(line.glyphs, (a, b) => a.background === b.background)) {
+      const bg = line.glyphs[i].background;
+      if (!bg) continue;
+      ctx.fillStyle = bg;
+      ctx.fillRect(cx - half * 0.3, ys[i], half * 1.3, glyphEnd(j - 1) - ys[i]);
+    }
+
+    const runs = glyphGroups(line.glyphs, (a, b, prev) =>
+      a.orientation === "rotate" && b.orientation === "rotate" && (gap === 0 || !!prev.joinNext) && sameRun(a, b));
+    for (const [i, j] of runs) {
+      const g = line.glyphs[i];
+      const text = line.glyphs.slice(i, j).map(x => x.text).join("");
+      const size = g.fontSize;
+      const fill = g.gradient
+        ? gradientFill(ctx, g.gradient, { left: cx - size / 2, right: cx + size / 2, top: ys[i], bottom: glyphEnd(j - 1) })
+        : g.color;
+
+      if (g.image) {
+        ctx.drawImage(g.image, cx - size / 2, ys[i], size, size);
+      } else if (g.orientation === "rotate") {
+        ctx.save();
+        ctx.translate(cx, ys[i]);
+        ctx.rotate(Math.PI / 2);
+        ctx.textAlign = "left";
+        paintText(ctx, g, text, 0, size * 0.35, fill);
+        ctx.restore();
+      } else {
+        // 句读在横排字形中位于左下，竖排时移到右上
+        const dx = g.orientation === "corner" ? size * 0.6 : 0;
+        const dy = g.orientation === "corner" ? -size * 0.6 : 0;
+        ctx.textAlign = "center";
+        paintText(ctx, g, text, cx + dx, ys[i] + size * 0.88 + dy, fill);
+      }
+    }
+
+    // 竖排的下划线画在列的右侧，删除线穿过列中心
+    for (const [flag, offset] of [["underline", 0.6], ["strike", 0]] as const) {
+      for (const [i, j] of glyphGroups(line.glyphs, (a, b) => !!a[flag] === !!b[flag] && a.color === b.color)) {
+        const g = line.glyphs[i];
+        if (!g[flag]) continue;
+        const thickness = Math.max(1, Math.round(line.maxFontSize / 16));
+        ctx.fillStyle = g.color;
+        ctx.fillRect(cx + line.maxFontSize * offset - thickness / 2, ys[i], thickness, glyphEnd(j - 1) - ys[i]);
+      }
+    }
+
+    right -= advance;
+  }
+  ctx.textAlign = "left";
+}
+
+export function measureBlockHeight(lines: LayoutLine[], base: RichBlockStyle) {
+  return lines.reduce((sum, line) => sum + lineAdvance(line, base), 0);
+}
+
+function alignStart(origin: number, box: number | undefined, size: number, align: RichBlockStyle["textAlign"]) {
+  if (align === "center") return box !== undefined ? origin + (box - size) / 2 : origin - size / 2;
+  if (align === "right") return box !== undefined ? origin + box - size : origin - size;
+  return origin;
+}
+
+/** 排好的行占据的外接矩形（按行框计算，不含描边、底板等外扩），供贴纸避让 */
+export function layoutBounds(lines: LayoutLine[], base: RichBlockStyle): Rect | undefined {
+  if (lines.length === 0) return undefined;
+  const extent = measureBlockHeight(lines, base);
+  const vertical = isVertical(base);
+  const box = vertical ? base.height : base.width;
+  let span = Math.max(...lines.map(l => l.figure ? l.figure.width : l.width + (l.indent ?? 0)));
+  if (base.textAlign === "justify" && box !== undefined) span = Math.max(span, box);
+
+  if (vertical) {
+    const right = base.width !== undefined ? base.x + base.width : base.x;
+    return { x: right - extent, y: alignStart(base.y, box, span, base.textAlign), width: extent, height: span };
+  }
+  return { x: alignStart(base.x, box, span, base.textAlign), y: base.y, width: span, height: extent };
+}
+
+/** 行（列）堆叠方向上的可用空间：横排为 height，竖排为 width */
+function stackLimit(base: RichBlockStyle) {
+  return isVertical(base) ? base.width : base.height;
+}
+
+function fitRange(fontSize: number, fit: TextFit): [number, number] {
+  const min = fit.minFontSize ?? 12;
+  const max = fit.maxFontSize ?? fontSize * 2;
+  if (fit.mode === "shrink") return [Math.min(min, fontSize), fontSize];
+  if (fit.mode === "grow") return [fontSize, Math.max(max, fontSize)];
+  return [Math.min(min, max), Math.max(min, max)];
+}
+
+/**
+ * 在 [minFontSize, maxFontSize] 内二分查找能放进文本框（width/height/maxLines）的最大字号，
+ * 行高与内联 <s:NN> 字号按同一比例缩放。放不下时取最小字号。
+ * figures 为排在文字之前的插图，与文字一起计入文本框的高度。
+ */
+export function fitRichBlock(
+  ctx: CanvasRenderingContext2D,
+  content: string,
+  base: RichBlockStyle,
+  fit: TextFit,
+  figures: FigureSource[] = []
+): RichBlockStyle {
+  if (base.width === undefined && base.height === undefined) return base;
+
+  const styleAt = (size: number): RichBlockStyle => ({
+    ...base,
+    fontSize: size,
+    lineHeight: Math.round(base.lineHeight * size / base.fontSize),
+    inlineScale: (base.inlineScale ?? 1) * size / base.fontSize,
+  });
+  const fits = (style: RichBlockStyle) => {
+    const lines = [...figures.map(f => layoutFigure(f, style)), ...layoutRichText(ctx, content, style)];
+    if (style.maxLines !== undefined && lines.length > style.maxLines) return false;
+    const stack = stackLimit(style);
+    if (stack !== undefined && measureBlockHeight(lines, style) > stack) return false;
+    return true;
+  };
+
+  const [lo, hi] = fitRange(base.fontSize, fit).map(Math.round);
+  let best = lo;
+  let a = lo, b = hi;
+  while (a <= b) {
+    const mid = Math.floor((a + b) / 2);
+    if (fits(styleAt(mid))) {
+      best = mid;
+      a = mid + 1;
+    } else {
+      b = mid - 1;
+    }
+  }
+  return styleAt(best);
+}
+
+/**
+ * 按 maxLines / height（竖排为 width）将排好的行切分为多页；
+ * 每行自带已解析的颜色与字号，跨页时内联样式自然保持闭合。
+ */
+export function paginateLines(lines: LayoutLine[], base: RichBlockStyle): LayoutLine[][] {
+  const pages: LayoutLine[][] = [];
+  const stack = stackLimit(base);
+  let current: LayoutLine[] = [];
+  let used = 0;
+
+  for (const line of lines) {
+    const advance = lineAdvance(line, base);
+    const fullByLines = base.maxLines !== undefined && current.length >= base.maxLines;
+    const fullByHeight = stack !== undefined && used + advance > stack;
+    if (current.length > 0 && (fullByLines || fullByHeight)) {
+      pages.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(line);
+    used += advance;
+  }
+  if (current.length > 0) pages.push(current);
+  return pages;
+}
+
+/** overflow 为 clip 时保留的行：即切分后的第一页，同时受 maxLines 与 height 限制 */
+export function clipLines(lines: LayoutLine[], base: RichBlockStyle): LayoutLine[] {
+  return paginateLines(lines, base)[0] ?? [];
+}
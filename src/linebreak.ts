@@ -0,0 +1,198 @@
+// linebreak.ts
+import type { LayoutGlyph, LayoutLine } from "./layout";
+import type { LineBreakOptions } from "./config";
+
+export type GlyphKind = "space" | "cjk" | "emoji" | "word";
+
+// 禁则：不可出现在行首 / 行尾的标点
+const NO_LINE_START = new Set(Array.from(
+  "，。、．！？：；）》」』】〕〉’”…‥—～·・ー々ゝゞヽヾぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ,.!?:;)]}%"
+));
+const NO_LINE_END = new Set(Array.from("（《「『【〔〈‘“([{$￥"));
+// 允许悬挂到文本框外的行尾标点
+const HANGABLE = new Set(Array.from("，。、．,."));
+
+const CJK_RE = /[\u2e80-\u2fff\u3000-\u30ff\u3100-\u9fff\uac00-\ud7af\uf900-\ufaff\ufe30-\ufe4f\uff00-\uffef\u2018-\u201f\u2026\u2014\u{20000}-\u{2fa1f}]/u;
+const EMOJI_RE = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+const GRAPHEME_EXTEND_RE = /[\u200d\ufe0e\ufe0f\u20e3\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}\p{M}]/u;
+const REGIONAL_RE = /\p{Regional_Indicator}/u;
+const HYPHENATABLE_RE = /[A-Za-z\u00c0-\u024f]/;
+
+const HYPHEN_MIN_CHARS = 3;
+
+export function classifyGlyph(text: string): GlyphKind {
+  if (/^\s+$/.test(text)) return "space";
+  if (EMOJI_RE.test(text)) return "emoji";
+  if (CJK_RE.test(text)) return "cjk";
+  return "word";
+}
+
+/**
+ * 按字素切分：emoji 的 ZWJ 序列、肤色修饰、变体选择符、国旗（区域指示符对）以及组合附加符号
+ * 都与前一个字符合并，保证不会被拆开换行。
+ */
+export function splitGraphemes(text: string): string[] {
+  const out: string[] = [];
+  for (const cp of Array.from(text)) {
+    const prev = out[out.length - 1];
+    if (prev !== undefined && prev !== "\n") {
+      const joinsPrev = GRAPHEME_EXTEND_RE.test(cp) || prev.endsWith("\u200d");
+      const flagPair = REGIONAL_RE.test(cp) && Array.from(prev).length === 1 && REGIONAL_RE.test(prev);
+      if (joinsPrev || flagPair) {
+        out[out.length - 1] = prev + cp;
+        continue;
+      }
+    }
+    out.push(cp);
+  }
+  return out;
+}
+
+interface BreakContext {
+  limit: number;
+  size: (g: LayoutGlyph) => number;
+  hyphen: (g: LayoutGlyph) => LayoutGlyph;
+  options: Required<LineBreakOptions>;
+  baseFontSize: number;
+}
+
+/** 把字形划分为不可再分的片段：拉丁单词整体、空格挂在前一片段末尾、禁则标点与相邻字符绑定 */
+function segmentGlyphs(glyphs: LayoutGlyph[], kinsoku: boolean): LayoutGlyph[][] {
+  const units: LayoutGlyph[][] = [];
+  for (const g of glyphs) {
+    const prev = units[units.length - 1];
+    if (g.kind === "word" && prev && prev[prev.length - 1].kind === "word") {
+      prev[prev.length - 1].joinNext = true;
+      prev.push(g);
+    } else {
+      units.push([g]);
+    }
+  }
+
+  const segments: LayoutGlyph[][] = [];
+  for (const unit of units) {
+    const prev = segments[segments.length - 1];
+    const glue = prev !== undefined && (
+      unit[0].kind === "space"
+      || kinsoku && (NO_LINE_START.has(unit[0].text) || NO_LINE_END.has(prev[prev.length - 1].text))
+    );
+    if (glue) prev.push(...unit);
+    else segments.push(unit.slice());
+  }
+  return segments;
+}
+
+function trailingSize(glyphs: LayoutGlyph[], ctx: BreakContext) {
+  let total = 0;
+  let i = glyphs.length - 1;
+  while (i >= 0 && glyphs[i].kind === "space") total += ctx.size(glyphs[i--]);
+  if (ctx.options.hangingPunctuation && i >= 0 && HANGABLE.has(glyphs[i].text)) total += ctx.size(glyphs[i]);
+  return total;
+}
+
+function sumSize(glyphs: LayoutGlyph[], ctx: BreakContext) {
+  return glyphs.reduce((s, g) => s + ctx.size(g), 0);
+}
+
+/**
+ * 行内剩余空间放不下整个片段时尝试拆分：
+ * 开启连字符时，只有比整行还宽的拉丁单词才在中间断开并补 "-"，其余片段整体移到下一行；
+ * 空行上仍放不下则按字强制断开，断点同样遵守禁则。
+ */
+function splitSegment(glyphs: LayoutGlyph[], room: number, lineEmpty: boolean, ctx: BreakContext) {
+  const widerThanLine = sumSize(glyphs, ctx) - trailingSize(glyphs, ctx) > ctx.limit;
+  if (ctx.options.hyphenate && widerThanLine) {
+    for (let k = glyphs.length - HYPHEN_MIN_CHARS; k >= HYPHEN_MIN_CHARS; k--) {
+      const head = glyphs.slice(0, k);
+      if (!head.slice(-HYPHEN_MIN_CHARS).every(g => HYPHENATABLE_RE.test(g.text))) continue;
+      if (!HYPHENATABLE_RE.test(glyphs[k].text)) continue;
+      const hyphen = ctx.hyphen(head[head.length - 1]);
+      if (sumSize(head, ctx) + ctx.size(hyphen) <= room) {
+        return { head: [...head, hyphen], tail: glyphs.slice(k) };
+      }
+    }
+  }
+  if (!lineEmpty) return null;
+
+  let k = 1;
+  let used = ctx.size(glyphs[0]);
+  while (k < glyphs.length && used + ctx.size(glyphs[k]) <= room) used += ctx.size(glyphs[k++]);
+  if (ctx.options.kinsoku) {
+    // 下一行不能以禁则标点开头：先把前面的字一起移到下一行，移到行首仍不行时让标点留在本行
+    let back = k;
+    while (back > 1 && back < glyphs.length && NO_LINE_START.has(glyphs[back].text)) back--;
+    if (back < glyphs.length && NO_LINE_START.has(glyphs[back].text)) {
+      while (k < glyphs.length && NO_LINE_START.has(glyphs[k].text)) k++;
+    } else {
+      k = back;
+    }
+  }
+  return { head: glyphs.slice(0, k), tail: glyphs.slice(k) };
+}
+
+function makeLine(glyphs: LayoutGlyph[], paragraphEnd: boolean, ctx: BreakContext): LayoutLine {
+  while (glyphs.length > 0 && glyphs[glyphs.length - 1].kind === "space") glyphs.pop();
+  const last = glyphs[glyphs.length - 1];
+  let width = glyphs.reduce((s, g) => s + g.width, 0);
+  // 悬挂标点不计入对齐宽度，右对齐/两端对齐时伸出文本框
+  if (ctx.options.hangingPunctuation && last && HANGABLE.has(last.text) && sumSize(glyphs, ctx) > ctx.limit) {
+    width -= last.width;
+  }
+  const maxFontSize = glyphs.reduce((m, g) => Math.max(m, g.fontSize), 0) || ctx.baseFontSize;
+  return { glyphs, width, maxFontSize, paragraphEnd };
+}
+
+/** 单个段落的贪心断行，limit 为像素宽度（或按字数时的字符数） */
+export function breakParagraph(
+  glyphs: LayoutGlyph[],
+  limit: number,
+  size: (g: LayoutGlyph) => number,
+  hyphen: (g: LayoutGlyph) => LayoutGlyph,
+  options: LineBreakOptions | undefined,
+  baseFontSize: number
+): LayoutLine[] {
+  const ctx: BreakContext = {
+    limit,
+    size,
+    hyphen,
+    options: { kinsoku: true, hangingPunctuation: false, hyphenate: false, ...options },
+    baseFontSize,
+  };
+  const lines: LayoutLine[] = [];
+  let current: LayoutGlyph[] = [];
+  let used = 0;
+
+  const pushLine = (paragraphEnd: boolean) => {
+    lines.push(makeLine(current, paragraphEnd, ctx));
+    current = [];
+    used = 0;
+  };
+
+  for (const segment of segmentGlyphs(glyphs, ctx.options.kinsoku)) {
+    let pending = segment;
+    while (pending.length > 0) {
+      const total = sumSize(pending, ctx);
+      if (current.length === 0 && lines.length > 0 && pending[0].kind === "space") {
+        // 折行后行首的空格直接丢弃（段首缩进保留）
+        pending = pending.slice(1);
+        continue;
+      }
+      if (used + total - trailingSize(pending, ctx) <= limit) {
+        current.push(...pending);
+        used += total;
+        break;
+      }
+      const split = splitSegment(pending, limit - used, current.length === 0, ctx);
+      if (split) {
+        current.push(...split.head);
+        used += sumSize(split.head, ctx);
+        pending = split.tail;
+        // 禁则标点留在本行时片段可能整个放进本行，后续片段自然换到下一行
+        if (pending.length === 0) break;
+      }
+      pushLine(false);
+    }
+  }
+  pushLine(true);
+  return lines;
+}
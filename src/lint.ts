@@ -0,0 +1,342 @@
+// lint.ts
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import sharp from "sharp";
+import config, { type AppConfig, type BaseTextStyle, type PageKind, type Rect } from "./config";
+import { applyTemplateManifest, loadTemplateManifest } from "./manifest";
+import { plainText, tokenizeInline } from "./markup";
+import { applyTheme } from "./theme";
+import { showOnPage } from "./pagemarks";
+import { BODY_TEXT_DEFAULTS, PAGE_MARK_DEFAULTS, TEXT_DEFAULTS, defaultLineHeight } from "./layout";
+import { TemplateError, declaredBackground, pngSize, templatePath, REQUIRED_IMAGES } from "./templates";
+import { checkFonts } from "./utils";
+
+export type LintLevel = "error" | "warning";
+
+export interface LintIssue {
+  level: LintLevel;
+  code: string;
+  message: string;
+  file?: string;
+  box?: string;             // 如 title[0]、pages[1]、footer[0]
+}
+
+export interface LintBox {
+  box: string;
+  page: PageKind;
+  rect: Rect;
+  color?: string;
+  contrast?: number;         // 文字颜色与框内底图的对比度（WCAG），取框内最不利的 10% 像素
+}
+
+export interface LintReport {
+  ok: boolean;               // 没有 error 级别的问题
+  template: string;
+  image: { width: number; height: number };
+  files: { file: string; width?: number; height?: number }[];
+  boxes: LintBox[];
+  issues: LintIssue[];
+}
+
+// WCAG 大字号文字的最低对比度
+const MIN_CONTRAST = 3;
+const PAGE_FILES: Record<PageKind, string> = { cover: "cover.png", text: "text.png", ending: "ending.png" };
+
+type RGB = [number, number, number];
+
+/** 解析 #rgb / #rrggbb(aa) / rgb() / rgba()，无法解析时返回 null */
+export function parseColor(color: string | undefined): RGB | null {
+  if (!color) return null;
+  const c = color.trim();
+  const hex = /^#([0-9a-f]{3,8})$/i.exec(c)?.[1];
+  if (hex && (hex.length === 3 || hex.length === 4)) {
+    return [0, 1, 2].map(i => parseInt(hex[i] + hex[i], 16)) as RGB;
+  }
+  if (hex && (hex.length === 6 || hex.length === 8)) {
+    return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as RGB;
+  }
+  const m = /^rgba?\(([^)]+)\)$/i.exec(c);
+  if (m) {
+    const parts = m[1].split(",").map(s => Number(s.trim()));
+    if (parts.length >= 3 && parts.slice(0, 3).every(n => !Number.isNaN(n))) return parts.slice(0, 3) as RGB;
+  }
+  return null;
+}
+
+function luminance([r, g, b]: RGB) {
+  const ch = (v: number) => {
+    const s = v / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * ch(r) + 0.7152 * ch(g) + 0.0722 * ch(b);
+}
+
+export function contrastRatio(a: number, b: number) {
+  const [hi, lo] = a > b ? [a, b] : [b, a];
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+/** 按文字估算行数与最长一行的字数（与渲染一样按 charsPerLine 折行）；没有文字时按满行估算 */
+function estimateText(t: BaseTextStyle, charsPerLine: number) {
+  const paragraphs = t.text ? plainText(t.text).split("\n").map(p => Array.from(p).length) : [];
+  if (paragraphs.length === 0) return { lines: t.maxLines ?? 1, chars: charsPerLine };
+  const lines = paragraphs.reduce((sum, n) => sum + Math.max(1, Math.ceil(n / charsPerLine)), 0);
+  return { lines: t.maxLines ?? lines, chars: Math.min(charsPerLine, Math.max(1, ...paragraphs)) };
+}
+
+/** 文本框在画布上的大致范围：未设宽度时按 charsPerLine（与渲染相同的默认值）估算，未设高度时按 maxLines 或文字行数估算 */
+export function boxRect(t: BaseTextStyle, defaults: { fontSize: number; charsPerLine: number }): Rect {
+  const fontSize = t.fontSize ?? defaults.fontSize;
+  const lineHeight = t.lineHeight ?? defaultLineHeight(fontSize);
+  const vertical = t.writingMode === "vertical-rl";
+  const { lines, chars } = estimateText(t, t.charsPerLine ?? defaults.charsPerLine);
+  const run = chars * fontSize;
+  const stack = lines * lineHeight;
+  const width = t.width ?? (vertical ? stack : run);
+  const height = t.height ?? (vertical ? run : stack);
+  let x = t.x;
+  if (t.width === undefined && !vertical) {
+    if (t.textAlign === "center") x -= width / 2;
+    else if (t.textAlign === "right") x -= width;
+  }
+  return { x, y: t.y, width, height };
+}
+
+function outsideCanvas(r: Rect, W: number, H: number) {
+  return r.x < 0 || r.y < 0 || r.x + r.width > W || r.y + r.height > H;
+}
+
+/** 模板中会出现的文字块；结尾页和页眉页脚中 text 为空的槽位不参与检查 */
+function collectBoxes(appcfg: AppConfig) {
+  const boxes: { box: string; page: PageKind; style: BaseTextStyle; defaults: typeof TEXT_DEFAULTS }[] = [];
+  if (appcfg.layout) {
+    appcfg.layout.forEach((spec, p) => spec.elements.forEach((el, i) => {
+      if (el.type === "text") boxes.push({ box: el.id ?? `layout[${p}].elements[${i}]`, page: spec.kind, style: el, defaults: TEXT_DEFAULTS });
+    }));
+  } else {
+    appcfg.title.forEach((t, i) => boxes.push({ box: `title[${i}]`, page: "cover", style: t, defaults: TEXT_DEFAULTS }));
+    appcfg.pages.forEach((t, i) => boxes.push({ box: `pages[${i}]`, page: "text", style: t, defaults: BODY_TEXT_DEFAULTS }));
+    appcfg.ending.forEach((t, i) => {
+      if (t.text) boxes.push({ box: `ending[${i}]`, page: "ending", style: t, defaults: TEXT_DEFAULTS });
+    });
+  }
+  for (const kind of ["header", "footer"] as const) {
+    appcfg[kind].forEach((t, i) => {
+      if (!t.text) return;
+      (["cover", "text", "ending"] as PageKind[])
+        .filter(page => showOnPage(t.pages, page))
+        .forEach(page => boxes.push({ box: `${kind}[${i}]`, page, style: t, defaults: PAGE_MARK_DEFAULTS }));
+    });
+  }
+  return boxes;
+}
+
+/** 检查字体声明：文字块和 <f:...> 引用的字体、fallback 引用的键都必须在 fonts 中声明 */
+function lintFontRefs(appcfg: AppConfig, issues: LintIssue[]) {
+  const fonts = appcfg.fonts;
+  const families = new Set(Object.values(fonts).map(f => f.family));
+  const keys = new Set([
+    ...Object.keys(fonts),
+    ...Object.values(fonts).flatMap(f => [f.name, f.family]),
+  ].map(k => k.toLowerCase()));
+
+  const styles: [string, BaseTextStyle][] = [
+    ...appcfg.title.map((t, i) => [`title[${i}]`, t] as [string, BaseTextStyle]),
+    ...appcfg.pages.map((t, i) => [`pages[${i}]`, t] as [string, BaseTextStyle]),
+    ...appcfg.ending.map((t, i) => [`ending[${i}]`, t] as [string, BaseTextStyle]),
+    ...appcfg.header.map((t, i) => [`header[${i}]`, t] as [string, BaseTextStyle]),
+    ...appcfg.footer.map((t, i) => [`footer[${i}]`, t] as [string, BaseTextStyle]),
+    ...(appcfg.layout ?? []).flatMap((spec, p) => spec.elements.flatMap((el, i) =>
+      el.type === "text" ? [[el.id ?? `layout[${p}].elements[${i}]`, el] as [string, BaseTextStyle]] : [])),
+  ];
+  for (const [box, t] of styles) {
+    if (t.fontFamily && !families.has(t.fontFamily)) {
+      issues.push({ level: "error", code: "font-undeclared", box, message: `Font family "${t.fontFamily}" is not declared in fonts` });
+    }
+    for (const tok of tokenizeInline(t.text ?? "")) {
+      if (tok.type === "open" && tok.name === "f" && tok.value && !keys.has(tok.value.toLowerCase())) {
+        issues.push({ level: "error", code: "font-undeclared", box, message: `Inline font <f:${tok.value}> is not declared in fonts` });
+      }
+    }
+  }
+  if (appcfg.watermark.enable && !families.has(appcfg.watermark.fontFamily)) {
+    issues.push({ level: "error", code: "font-undeclared", box: "watermark", message: `Font family "${appcfg.watermark.fontFamily}" is not declared in fonts` });
+  }
+  for (const [key, def] of Object.entries(fonts)) {
+    for (const fb of def.fallback ?? []) {
+      if (!fonts[fb]) issues.push({ level: "error", code: "font-undeclared", message: `Fallback "${fb}" of font "${key}" is not declared in fonts` });
+    }
+  }
+}
+
+/** 取文本框内各像素与文字颜色的对比度，返回最不利的 10% 分位值 */
+function boxContrast(pixels: Buffer, W: number, H: number, r: Rect, text: RGB) {
+  const x0 = Math.max(0, Math.floor(r.x)), x1 = Math.min(W, Math.ceil(r.x + r.width));
+  const y0 = Math.max(0, Math.floor(r.y)), y1 = Math.min(H, Math.ceil(r.y + r.height));
+  if (x1 <= x0 || y1 <= y0) return undefined;
+
+  const textLum = luminance(text);
+  const ratios: number[] = [];
+  // 隔 4 像素采样，足够判断底色
+  for (let y = y0; y < y1; y += 4) {
+    for (let x = x0; x < x1; x += 4) {
+      const i = (y * W + x) * 3;
+      ratios.push(contrastRatio(textLum, luminance([pixels[i], pixels[i + 1], pixels[i + 2]])));
+    }
+  }
+  ratios.sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length * 0.1)];
+}
+
+export async function lintTemplate(name = config.templates.defaultName): Promise<LintReport> {
+  const templateDir = templatePath(name);
+  const issues: LintIssue[] = [];
+  const files: LintReport["files"] = [];
+
+  if (!fssync.existsSync(templateDir)) {
+    throw new TemplateError(`Template not found: ${name}`, 404);
+  }
+
+  let appcfg: AppConfig = config;
+  try {
+    const manifest = await loadTemplateManifest(templateDir);
+    if (manifest) appcfg = applyTemplateManifest(config, manifest, templateDir);
+  } catch (e) {
+    issues.push({ level: "error", code: "manifest-invalid", message: (e as Error).message });
+  }
+  try {
+    appcfg = applyTheme(appcfg);
+  } catch (e) {
+    issues.push({ level: "error", code: "theme-unknown", message: (e as Error).message });
+  }
+  const { width: W, height: H } = appcfg.image;
+
+  // 必需底图与尺寸
+  const readable = new Set<string>();
+  for (const file of REQUIRED_IMAGES) {
+    const abs = path.join(templateDir, file);
+    if (!fssync.existsSync(abs)) {
+      const declared = declaredBackground(appcfg.backgrounds, path.parse(file).name as PageKind);
+      if (!declared) issues.push({ level: "error", code: "file-missing", file, message: `Missing required file: ${file}` });
+      continue;
+    }
+    const size = pngSize(await fs.readFile(abs));
+    if (!size) {
+      issues.push({ level: "error", code: "file-invalid", file, message: `${file} is not a valid PNG` });
+      continue;
+    }
+    files.push({ file, ...size });
+    readable.add(file);
+    if (size.width !== W || size.height !== H) {
+      const sameRatio = Math.abs(size.width / size.height - W / H) < 0.01 * (W / H);
+      issues.push({
+        level: "warning",
+        code: "size-mismatch",
+        file,
+        message: sameRatio
+          ? `${file} is ${size.width}x${size.height} and will be scaled to ${W}x${H}`
+          : `${file} is ${size.width}x${size.height} and will be cropped to fit ${W}x${H}`,
+      });
+    }
+  }
+
+  // 贴纸：只会使用 assets 下的 PNG
+  const assetsDir = path.join(templateDir, "assets");
+  if (fssync.existsSync(assetsDir)) {
+    for (const entry of await fs.readdir(assetsDir)) {
+      const file = `assets/${entry}`;
+      if (!entry.toLowerCase().endsWith(".png")) {
+        issues.push({ level: "warning", code: "asset-ignored", file, message: `${file} is not a PNG and will be ignored` });
+        continue;
+      }
+      const buf = await fs.readFile(path.join(assetsDir, entry)).catch(() => null);
+      const size = buf && pngSize(buf);
+      if (!size) issues.push({ level: "error", code: "asset-invalid", file, message: `${file} is unreadable or not a valid PNG` });
+      else files.push({ file, ...size });
+    }
+  }
+
+  // 字体：文件存在且被引用的字体都已声明
+  for (const f of await checkFonts(appcfg.fonts)) {
+    if (!f.exists) {
+      issues.push({
+        level: f.optional ? "warning" : "error",
+        code: "font-missing",
+        message: `Font file for "${f.name}" not found: ${f.path}`,
+      });
+    }
+  }
+  lintFontRefs(appcfg, issues);
+
+  // 文字块、二维码是否超出画布
+  const boxes: LintBox[] = collectBoxes(appcfg).map(({ box, page, style, defaults }) => ({
+    box, page, rect: boxRect(style, defaults), color: style.gradient || style.plate ? undefined : style.color,
+  }));
+  for (const b of boxes) {
+    if (outsideCanvas(b.rect, W, H)) {
+      issues.push({ level: "error", code: "box-outside", box: b.box, message: `${b.box} on ${b.page} extends outside the ${W}x${H} canvas` });
+    }
+  }
+  appcfg.qrcodes.forEach((q, i) => {
+    if (outsideCanvas({ x: q.x, y: q.y, width: q.size, height: q.size }, W, H)) {
+      issues.push({ level: "error", code: "box-outside", box: `qrcodes[${i}]`, message: `qrcodes[${i}] extends outside the ${W}x${H} canvas` });
+    }
+  });
+  appcfg.shapes.forEach((el, i) => {
+    if (outsideCanvas(el, W, H)) {
+      issues.push({ level: "warning", code: "box-outside", box: `shapes[${i}]`, message: `shapes[${i}] extends outside the ${W}x${H} canvas` });
+    }
+  });
+  appcfg.layout?.forEach((spec, p) => spec.elements.forEach((el, i) => {
+    const box = el.id ?? `layout[${p}].elements[${i}]`;
+    const rect = el.type === "qrcode" ? { x: el.x, y: el.y, width: el.size, height: el.size }
+      : el.type === "image" || el.type === "shape" ? el : undefined;
+    if (rect && outsideCanvas(rect, W, H)) {
+      issues.push({ level: "warning", code: "box-outside", box, message: `${box} on ${spec.kind} extends outside the ${W}x${H} canvas` });
+    }
+  }));
+
+  // 对比度：底图按渲染时的 cover 方式缩放后取文本框区域；带底板或渐变的文字不检查
+  for (const page of ["cover", "text", "ending"] as PageKind[]) {
+    const file = PAGE_FILES[page];
+    const pageBoxes = boxes.filter(b => b.page === page && b.color);
+    const replaced = appcfg.backgrounds.mode === "replace" && declaredBackground(appcfg.backgrounds, page);
+    if (!readable.has(file) || replaced || pageBoxes.length === 0) continue;
+
+    let pixels: Buffer;
+    try {
+      pixels = await sharp(path.join(templateDir, file))
+        .resize(W, H, { fit: "cover" })
+        .flatten({ background: "#ffffff" })
+        .raw()
+        .toBuffer();
+    } catch (e) {
+      issues.push({ level: "error", code: "file-invalid", file, message: `${file} could not be decoded: ${(e as Error).message}` });
+      continue;
+    }
+    for (const b of pageBoxes) {
+      const rgb = parseColor(b.color);
+      if (!rgb) continue;
+      b.contrast = boxContrast(pixels, W, H, b.rect, rgb);
+      if (b.contrast !== undefined && b.contrast < MIN_CONTRAST) {
+        issues.push({
+          level: "warning",
+          code: "low-contrast",
+          box: b.box,
+          file,
+          message: `${b.box} color ${b.color} has contrast ${b.contrast.toFixed(2)}:1 against ${file} (minimum ${MIN_CONTRAST}:1)`,
+        });
+      }
+    }
+  }
+
+  return {
+    ok: !issues.some(i => i.level === "error"),
+    template: name,
+    image: { width: W, height: H },
+    files,
+    boxes,
+    issues,
+  };
+}
@@ -0,0 +1,121 @@
+// manifest.ts
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import YAML from "yaml";
+import type {
+  AppConfig,
+  BackgroundsConfig,
+  BaseTextStyle,
+  FigureStyle,
+  FontDef,
+  ImageConfig,
+  OverlayConfig,
+  PageMarkStyle,
+  PageSpec,
+  QRCodeStyle,
+  MarkdownStyle,
+  ShapeElement,
+  SizePreset,
+  ThemeColors,
+  WatermarkConfig,
+} from "./config";
+import { mergeThemes } from "./theme";
+import { resolveSafePath } from "./utils";
+
+/**
+ * 模板目录下的 template.yaml / template.json：声明该模板自己的文字区域、字体、颜色、贴纸与尺寸，
+ * 渲染时合并在全局 config 之上、请求 overrides 之下。数组字段按下标合并。
+ */
+export interface TemplateManifest {
+  name?: string;
+  description?: string;
+  image?: Partial<ImageConfig>;
+  fonts?: Record<string, FontDef>;         // path 相对模板目录，不能指向目录之外
+  title?: Partial<BaseTextStyle>[];
+  page?: Partial<BaseTextStyle>;           // 应用到所有正文页
+  pages?: Partial<BaseTextStyle>[];        // 按下标覆盖单页，优先于 page
+  ending?: Partial<BaseTextStyle>[];
+  header?: Partial<PageMarkStyle>[];
+  footer?: Partial<PageMarkStyle>[];
+  overlay?: Partial<OverlayConfig>[];
+  qrcodes?: Partial<QRCodeStyle>[];
+  watermark?: Partial<WatermarkConfig>;
+  figure?: Partial<FigureStyle>;
+  sizes?: Record<string, SizePreset>;
+  backgrounds?: Partial<BackgroundsConfig>;  // 模板可以不带底图，只声明生成背景
+  themes?: Record<string, Partial<ThemeColors>>; // 模板自带的配色方案，与全局主题按名称合并
+  theme?: string;                          // 该模板默认使用的主题
+  layout?: PageSpec[];                     // 自定义页面，替代默认的封面-正文-结尾
+  shapes?: ShapeElement[];                 // 模板的装饰图形，替换全局 shapes
+  markdown?: Partial<MarkdownStyle>;       // Markdown 导入时的标题、引用等样式
+}
+
+export const MANIFEST_FILES = ["template.yaml", "template.yml", "template.json"];
+
+export function findManifest(templateDir: string): string | null {
+  for (const name of MANIFEST_FILES) {
+    const abs = path.join(templateDir, name);
+    if (fssync.existsSync(abs)) return abs;
+  }
+  return null;
+}
+
+export async function loadTemplateManifest(templateDir: string): Promise<TemplateManifest | null> {
+  const file = findManifest(templateDir);
+  if (!file) return null;
+  const raw = await fs.readFile(file, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = file.endsWith(".json") ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (e) {
+    throw new Error(`Invalid template manifest ${path.basename(file)}: ${(e as Error).message}`);
+  }
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid template manifest ${path.basename(file)}: expected an object`);
+  }
+  return parsed as TemplateManifest;
+}
+
+function mergeByIndex<T extends object>(target: T[], patches: Partial<T>[] | undefined) {
+  patches?.forEach((partial, i) => {
+    if (target[i]) Object.assign(target[i], partial);
+  });
+}
+
+export function applyTemplateManifest(base: AppConfig, manifest: TemplateManifest, templateDir: string): AppConfig {
+  const merged: AppConfig = structuredClone(base);
+
+  if (manifest.image) Object.assign(merged.image, manifest.image);
+  if (manifest.figure) Object.assign(merged.figure, manifest.figure);
+  if (manifest.watermark) Object.assign(merged.watermark, manifest.watermark);
+  if (manifest.sizes) Object.assign(merged.sizes, manifest.sizes);
+  if (manifest.backgrounds) Object.assign(merged.backgrounds, manifest.backgrounds);
+  mergeThemes(merged.themes, manifest.themes);
+  if (manifest.theme) merged.theme = manifest.theme;
+  if (manifest.layout) merged.layout = manifest.layout;
+  if (manifest.shapes) merged.shapes = manifest.shapes;
+  if (manifest.markdown) Object.assign(merged.markdown, manifest.markdown);
+
+  // 字体只能引用模板目录内的文件，绝对路径与 .. 都会被拒绝
+  for (const [key, f] of Object.entries(manifest.fonts ?? {})) {
+    let fontPath: string;
+    try {
+      fontPath = resolveSafePath(templateDir, f.path);
+    } catch {
+      throw new Error(`Font ${key} must be inside the template directory: ${f.path}`);
+    }
+    merged.fonts[key] = { ...f, path: fontPath };
+  }
+
+  mergeByIndex<BaseTextStyle>(merged.title, manifest.title);
+  if (manifest.page) merged.pages.forEach(p => Object.assign(p, manifest.page));
+  mergeByIndex<BaseTextStyle>(merged.pages, manifest.pages);
+  mergeByIndex<BaseTextStyle>(merged.ending, manifest.ending);
+  mergeByIndex(merged.header, manifest.header);
+  mergeByIndex(merged.footer, manifest.footer);
+  mergeByIndex(merged.overlay, manifest.overlay);
+  mergeByIndex(merged.qrcodes, manifest.qrcodes);
+  return merged;
+}
@@ -0,0 +1,307 @@
+// markdown.ts
+import YAML from "yaml";
+import type { BaseTextStyle, MarkdownStyle } from "./config";
+import { escapeInlineText, normalizeNewlines, plainText, splitIntoInlineSafeLines } from "./markup";
+import type { RenderRequest } from "./render";
+
+/**
+ * Markdown 笔记导入：开头 --- 包围的 YAML front matter 给出请求参数，正文转换为内联标记后分页。
+ *   titleDir / template（或 templateName）/ theme / title（字符串或数组）/ ending / handle / qrcode(s) / seed / sizes
+ * 正文中单独一行的 ---（或 *** / ___）为分页符；没有分页符时按正文文本框的行数估算自动分页。
+ * 标题、粗体、斜体、删除线、行内代码、链接与引用按 config.markdown 包装，列表与表格沿用正文的块级标记，
+ * ![图注](名称) 转为 <img:名称>。
+ */
+export interface MarkdownImport {
+  request: RenderRequest;
+  warnings: string[];
+}
+
+/** 按请求解析出的配置，自动分页只用到 Markdown 样式与正文槽位（渲染时传 resolveRenderConfig） */
+export type MarkdownConfigResolver = (request: RenderRequest) => Promise<{ markdown: MarkdownStyle; pages: BaseTextStyle[] }>;
+
+interface FrontMatter {
+  titleDir?: string;
+  template?: string;
+  templateName?: string;
+  theme?: string;
+  title?: string | string[];
+  ending?: string | string[];
+  handle?: string;
+  qrcode?: string;
+  qrcodes?: string[];
+  seed?: number | string;
+  sizes?: string[];
+}
+
+const FRONT_MATTER_KEYS = new Set(["titleDir", "template", "templateName", "theme", "title", "ending", "handle", "qrcode", "qrcodes", "seed", "sizes"]);
+const FRONT_MATTER_RE = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+
+const HEADING_RE = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const BREAK_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_RE = /^ {0,3}>\s?(.*)$/;
+const LIST_RE = /^([ \t]*)([-*+]|\d{1,3}[.)])\s+(.*)$/;
+const ROW_RE = /^\s*\|.*\|\s*$/;
+const FENCE_RE = /^ {0,3}(```|~~~)/;
+const IMAGE_RE = /!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+// 图片占位一段时按半页估算
+const IMAGE_LINES = 0.5;
+
+/** 一个渲染段落（对应正文中的一行） */
+interface MdLine {
+  text: string;
+  kind: "paragraph" | "heading" | "item" | "break";
+}
+
+function wrap(template: string, content: string) {
+  return template.includes("$") ? template.replace("$", () => content) : content;
+}
+
+function splitFrontMatter(source: string): { data: FrontMatter; body: string } {
+  const m = FRONT_MATTER_RE.exec(source);
+  if (!m) return { data: {}, body: source };
+  let data: unknown;
+  try {
+    data = YAML.parse(m[1]);
+  } catch (e) {
+    throw new Error(`Invalid front matter: ${(e as Error).message}`);
+  }
+  if (data === null || data === undefined) data = {};
+  // 开头的 --- 之间不是键值对时按正文的分页符处理
+  if (typeof data !== "object" || Array.isArray(data)) return { data: {}, body: source };
+  return { data: data as FrontMatter, body: source.slice(m[0].length) };
+}
+
+/** 行内转换：先用占位符保护行内代码与转义字符，再依次处理图片、链接、粗体、删除线、斜体 */
+function convertInline(text: string, style: MarkdownStyle) {
+  const held: string[] = [];
+  const hold = (s: string) => `\uE000${held.push(s) - 1}\uE001`;
+
+  let out = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => hold(wrap(style.code, escapeInlineText(code.trim()))))
+    .replace(/\\([\\`*_~#\[\]()!|+\-.])/g, (_, ch: string) => hold(ch))
+    .replace(IMAGE_RE, (_, __, src: string) => hold(`<img:${src}>`))
+    .replace(/\[([^\]]+)\]\(([^)]*)\)/g, (_, label: string) => wrap(style.link, label))
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, (_, a?: string, b?: string) => wrap(style.strong, a ?? b ?? ""))
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, (_, s: string) => wrap(style.strike, s))
+    .replace(/\*(?=\S)([^*]*?\S)\*|(?<![A-Za-z0-9])_(?=\S)([^_]*?\S)_(?![A-Za-z0-9])/g,
+      (_, a?: string, b?: string) => wrap(style.emphasis, a ?? b ?? ""));
+
+  while (out.includes("\uE000")) out = out.replace(/\uE000(\d+)\uE001/g, (_, k: string) => held[Number(k)]);
+  return out;
+}
+
+/** 软换行按 Markdown 合并为一段；两侧都是拉丁字母或数字时补空格，行尾两个空格或反斜杠为硬换行 */
+function joinParagraph(lines: string[]) {
+  let out = "";
+  lines.forEach((line, k) => {
+    if (k === 0) {
+      out = line.trim();
+      return;
+    }
+    const hard = /( {2,}|\\)$/.test(lines[k - 1]);
+    if (hard) out = out.replace(/\\$/, "");
+    const next = line.trim();
+    const gap = hard ? "\n" : /[A-Za-z0-9,.;:!?]$/.test(out) && /^[A-Za-z0-9]/.test(next) ? " " : "";
+    out += gap + next;
+  });
+  return out;
+}
+
+function headingStyle(style: MarkdownStyle, level: number) {
+  return style.headings[Math.min(level, style.headings.length) - 1] ?? "$";
+}
+
+/** 把 Markdown 正文转为渲染段落；列表按缩进的相对深度换成每级两个空格 */
+function convertBody(body: string, style: MarkdownStyle, warnings: string[]): { lines: MdLine[]; title?: string } {
+  const out: MdLine[] = [];
+  let title: string | undefined;
+  let para: string[] = [];
+  let fence: string | undefined;
+  let listIndents: number[] = [];
+
+  const flush = () => {
+    if (para.length > 0) out.push({ text: convertInline(joinParagraph(para), style), kind: "paragraph" });
+    para = [];
+  };
+
+  for (const raw of normalizeNewlines(body).split("\n")) {
+    if (fence !== undefined) {
+      if (raw.trim().startsWith(fence)) fence = undefined;
+      else out.push({ text: wrap(style.code, escapeInlineText(raw)), kind: "paragraph" });
+      continue;
+    }
+    const fenceMatch = FENCE_RE.exec(raw);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+    if (raw.trim() === "") {
+      flush();
+      listIndents = [];
+      continue;
+    }
+    if (BREAK_RE.test(raw)) {
+      flush();
+      out.push({ text: "", kind: "break" });
+      continue;
+    }
+    const heading = HEADING_RE.exec(raw);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      // 正文前的一级标题在没有 front matter title 时作为封面标题
+      if (level === 1 && title === undefined && out.length === 0) title = heading[2];
+      else out.push({ text: wrap(headingStyle(style, level), convertInline(heading[2], style)), kind: "heading" });
+      continue;
+    }
+    const quote = QUOTE_RE.exec(raw);
+    if (quote) {
+      flush();
+      if (quote[1].trim()) out.push({ text: wrap(style.quote, convertInline(quote[1].trim(), style)), kind: "paragraph" });
+      continue;
+    }
+    const item = LIST_RE.exec(raw);
+    if (item && !(para.length > 0 && item[1].length > 0)) {
+      flush();
+      const indent = item[1].replace(/\t/g, "    ").length;
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] >= indent) listIndents.pop();
+      const level = listIndents.length;
+      listIndents.push(indent);
+      const marker = item[2] === "*" || item[2] === "+" ? "-" : item[2];
+      out.push({ text: `${"  ".repeat(level)}${marker} ${convertInline(item[3], style)}`, kind: "item" });
+      continue;
+    }
+    if (ROW_RE.test(raw)) {
+      flush();
+      out.push({ text: convertInline(raw.trim(), style), kind: "item" });
+      continue;
+    }
+    para.push(raw);
+  }
+  flush();
+  if (fence !== undefined) warnings.push("Unclosed code block");
+  return { lines: out, title };
+}
+
+/** 按正文文本框估算每行字数与每页行数 */
+function pageCapacity(page: BaseTextStyle | undefined, style: MarkdownStyle) {
+  const fontSize = page?.fontSize ?? 36;
+  const lineHeight = page?.lineHeight ?? Math.round(fontSize * 1.4);
+  const charsPerLine = page?.width ? Math.max(1, Math.floor(page.width / fontSize)) : page?.charsPerLine ?? 20;
+  const byHeight = page?.height ? Math.floor(page.height / lineHeight) : Infinity;
+  const lines = style.linesPerPage ?? Math.min(page?.maxLines ?? Infinity, byHeight);
+  return { charsPerLine, lines: Number.isFinite(lines) ? Math.max(1, lines) : 10 };
+}
+
+function estimateLines(text: string, charsPerLine: number, linesPerPage: number) {
+  if (text.includes("<img:")) return Math.ceil(linesPerPage * IMAGE_LINES);
+  return text.split("\n").reduce((sum, line) => sum + Math.max(1, Math.ceil(plainText(line).length / charsPerLine)), 0);
+}
+
+/** 自动分页：贪心装入；标题不留在页尾，超过一页的段落按行切开（内联标签在切口处闭合再重开） */
+function paginate(lines: MdLine[], charsPerLine: number, linesPerPage: number) {
+  const pages: MdLine[][] = [];
+  let current: MdLine[] = [];
+  let used = 0;
+  const push = () => {
+    if (current.length > 0) pages.push(current);
+    current = [];
+    used = 0;
+  };
+
+  for (const line of lines) {
+    const cost = estimateLines(line.text, charsPerLine, linesPerPage);
+    if (line.kind === "paragraph" && cost > linesPerPage && !line.text.includes("<img:")) {
+      // 先填满当前页剩余的行，其余每页一整块；同一页的切片拼回一段，渲染时仍按像素断行
+      const chunks = splitIntoInlineSafeLines(line.text, charsPerLine);
+      while (chunks.length > 0) {
+        if (used >= linesPerPage) push();
+        const take = chunks.splice(0, linesPerPage - used);
+        current.push({ text: take.join(""), kind: "paragraph" });
+        used += take.length;
+      }
+      continue;
+    }
+    if (current.length > 0 && used + cost > linesPerPage) {
+      // 页尾的标题随下一段移到新页
+      const carry: MdLine[] = [];
+      while (current.length > 0 && current[current.length - 1].kind === "heading") carry.unshift(current.pop()!);
+      push();
+      current = carry;
+      used = carry.reduce((sum, l) => sum + estimateLines(l.text, charsPerLine, linesPerPage), 0);
+    }
+    current.push(line);
+    used += cost;
+  }
+  push();
+  return pages;
+}
+
+function asList(value: string | string[] | undefined) {
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : String(value).split("\n")).map(v => String(v ?? ""));
+}
+
+/**
+ * 把 Markdown 文档转换为 RenderRequest；extra 中的字段（如 images、titleDir）优先于 front matter。
+ * 自动分页需要按模板的正文文本框估算，因此先用 resolveConfig 解析模板与主题后的配置。
+ */
+export async function markdownToRequest(
+  source: string,
+  extra: Partial<RenderRequest>,
+  resolveConfig: MarkdownConfigResolver
+): Promise<MarkdownImport> {
+  const warnings: string[] = [];
+  const { data, body } = splitFrontMatter(normalizeNewlines(source ?? ""));
+  for (const key of Object.keys(data)) {
+    if (!FRONT_MATTER_KEYS.has(key)) warnings.push(`Unknown front matter key: ${key}`);
+  }
+
+  const base: RenderRequest = {
+    titleDir: data.titleDir ?? "",
+    templateName: data.templateName ?? data.template,
+    theme: data.theme,
+    seed: data.seed,
+    sizes: data.sizes,
+    endingTexts: asList(data.ending),
+    qrcodes: data.qrcodes ?? (data.qrcode ? [data.qrcode] : undefined),
+    ...(data.handle ? { overrides: { account: { handle: data.handle } } } : {}),
+  };
+  const defined = Object.fromEntries(Object.entries(extra).filter(([, v]) => v !== undefined));
+  const request: RenderRequest = { ...base, ...defined };
+
+  const appcfg = await resolveConfig(request);
+  const { lines, title } = convertBody(body, appcfg.markdown, warnings);
+  request.titleTexts ??= asList(data.title) ?? (title !== undefined ? [convertInline(title, appcfg.markdown)] : undefined);
+
+  const { charsPerLine, lines: linesPerPage } = pageCapacity(appcfg.pages[0], appcfg.markdown);
+  const explicit = lines.some(l => l.kind === "break");
+  const pages = explicit
+    ? lines.reduce<MdLine[][]>((acc, l) => {
+      if (l.kind === "break") acc.push([]);
+      else acc[acc.length - 1].push(l);
+      return acc;
+    }, [[]]).filter(p => p.length > 0)
+    : paginate(lines, charsPerLine, linesPerPage);
+
+  if (explicit) {
+    pages.forEach((page, i) => {
+      const used = page.reduce((sum, l) => sum + estimateLines(l.text, charsPerLine, linesPerPage), 0);
+      if (used > linesPerPage) warnings.push(`Page ${i + 1} may not fit (about ${used} lines, ${linesPerPage} per page)`);
+    });
+  }
+  request.pages ??= pages.map(page => page.map(l => l.text).join("\n"));
+
+  // 正文默认不识别列表与表格，Markdown 导入逐页启用（保留配置里已有的 blocks）；页数超过正文槽位时按第一个槽位追加。
+  // 分页只是按字数估算，放不下的部分续排到新页而不是被裁掉
+  request.overrides = {
+    ...request.overrides,
+    pages: Array.from({ length: Math.max(request.pages.length, appcfg.pages.length) }, (_, i) => ({
+      blocks: appcfg.pages[i]?.blocks ?? appcfg.pages[0]?.blocks ?? {},
+      overflow: "paginate" as const,
+      ...request.overrides?.pages?.[i],
+    })),
+  };
+  return { request, warnings };
+}
@@ -0,0 +1,340 @@
+// markup.ts
+import type { FontDef, TextFrame, TextGradient, TextPlate, TextShadow, TextStroke, ThemeColors } from "./config";
+import { resolveThemeColor } from "./theme";
+
+/**
+ * 内联标记：
+ *   <c:#ff4d4f>颜色</c>  <s:70>字号</s>  <f:yozai-medium>字体</f>  <bg:#fff3a0>荧光笔</bg>
+ *   <b>粗体</b>  <i>斜体</i>  <u>下划线</u>  <del>删除线</del>
+ *   <stroke:#fff,6>描边</stroke>  <shadow:#00000080,4,4,8>投影</shadow>
+ *   <grad:#ff4d4f,#ffb400>渐变</grad>（首项为数字时作为角度）  <plate:#ffe58f,12>底板</plate>
+ *   <box:#ff4d4f,3>方框圈注</box>  <circle:#ff4d4f>椭圆圈注</circle>
+ *   <img:name>  插入请求中提供的图片（独占一段，无需闭合）
+ * 颜色参数可写主题角色名：<c:accent>、<bg:muted>、<grad:primary,accent>。
+ * 用 \< 与 \> 输出字面量尖括号。
+ */
+type ValueTag = "c" | "s" | "f" | "bg" | "stroke" | "shadow" | "grad" | "plate" | "box" | "circle";
+type FlagTag = "b" | "i" | "u" | "del";
+export type InlineTagName = ValueTag | FlagTag;
+
+const VALUE_TAGS = new Set<string>(["c", "s", "f", "bg", "stroke", "shadow", "grad", "plate", "box", "circle"]);
+const FLAG_TAGS = new Set<string>(["b", "i", "u", "del"]);
+const VOID_TAGS = new Set<string>(["img"]);
+const TAG_RE = /^(\/?)([a-z]+)(?::(.*))?$/i;
+
+export type InlineToken =
+  | { type: "text"; text: string }
+  | { type: "open"; name: InlineTagName; value?: string; raw: string }
+  | { type: "close"; name: InlineTagName; raw: string }
+  | { type: "image"; name: string; raw: string };
+
+export interface InlineStyle {
+  color?: string;
+  fontSize?: number;
+  fontFamily?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  background?: string;
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  gradient?: TextGradient;
+  plate?: TextPlate;
+  frame?: TextFrame;
+}
+
+export type InlineSpan = InlineStyle & {
+  text: string;
+  /** <img:name> 引用的图片名，此时 text 为空 */
+  image?: string;
+};
+
+export interface InlineParseOptions {
+  fonts?: Record<string, FontDef>;
+  /** 未识别或不成对的标签会记录到这里，而不是画到图上 */
+  warnings?: string[];
+  /** 颜色参数为角色名（primary/accent/text/muted/background）时从主题取色 */
+  theme?: ThemeColors;
+}
+
+export function normalizeNewlines(s: string): string {
+  if (!s) return s;
+  return s
+    .replace(/\r\n/g, "\n")  // CRLF -> LF
+    .replace(/\r/g, "\n")    // CR -> LF
+    .replace(/\\n/g, "\n");  // 字面量 \n -> 真换行
+}
+
+export function escapeInlineText(text: string) {
+  return text.replace(/[<>]/g, ch => "\\" + ch);
+}
+
+/** 去掉内联标记，只保留可见文字 */
+export function plainText(text: string) {
+  return tokenizeInline(normalizeNewlines(text ?? "")).map(t => t.type === "text" ? t.text : "").join("");
+}
+
+export function tokenizeInline(text: string, warnings?: string[]): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let buf = "";
+  let i = 0;
+
+  const pushText = () => {
+    if (!buf) return;
+    tokens.push({ type: "text", text: buf });
+    buf = "";
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\\" && (text[i + 1] === "<" || text[i + 1] === ">")) {
+      buf += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch !== "<") {
+      buf += ch;
+      i++;
+      continue;
+    }
+
+    const closeIdx = text.indexOf(">", i);
+    if (closeIdx === -1) {
+      buf += text.slice(i);
+      break;
+    }
+    const raw = text.slice(i + 1, closeIdx).trim();
+    const m = TAG_RE.exec(raw);
+    if (!m) {
+      // 不像标签（如 "<3 爱你>"、"<>"），按普通文本处理
+      buf += text.slice(i, closeIdx + 1);
+      i = closeIdx + 1;
+      continue;
+    }
+
+    const closing = m[1] === "/";
+    const name = m[2].toLowerCase();
+    const value = m[3];
+    if (VOID_TAGS.has(name) && !closing && value !== undefined && value.trim() !== "") {
+      pushText();
+      tokens.push({ type: "image", name: value.trim(), raw });
+      i = closeIdx + 1;
+      continue;
+    }
+    const known = VALUE_TAGS.has(name)
+      ? (closing ? value === undefined : value !== undefined && value.trim() !== "")
+      : FLAG_TAGS.has(name) && value === undefined;
+
+    if (!known) {
+      warnings?.push(`Unknown inline tag <${raw}>`);
+    } else {
+      pushText();
+      tokens.push(closing
+        ? { type: "close", name: name as InlineTagName, raw }
+        : { type: "open", name: name as InlineTagName, value: value?.trim(), raw });
+    }
+    i = closeIdx + 1;
+  }
+  pushText();
+  return tokens;
+}
+
+function resolveFontKey(key: string, fonts: Record<string, FontDef> | undefined) {
+  if (!fonts) return undefined;
+  const lower = key.toLowerCase();
+  const def = fonts[key]
+    ?? Object.entries(fonts).find(([k]) => k.toLowerCase() === lower)?.[1]
+    ?? Object.values(fonts).find(f => f.name.toLowerCase() === lower || f.family.toLowerCase() === lower);
+  return def?.family;
+}
+
+/** 按逗号拆分标签参数，括号内的逗号（如 rgba(...)）不拆 */
+function splitArgs(value: string): string[] {
+  const out: string[] = [];
+  let depth = 0, buf = "";
+  for (const ch of value) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (ch === "," && depth === 0) {
+      out.push(buf.trim());
+      buf = "";
+      continue;
+    }
+    buf += ch;
+  }
+  out.push(buf.trim());
+  return out.filter(Boolean);
+}
+
+function optionalNumber(v: string | undefined) {
+  if (v === undefined) return undefined;
+  const num = Number(v);
+  return Number.isNaN(num) ? undefined : num;
+}
+
+function applyTag(style: InlineStyle, tag: { name: InlineTagName; value?: string }, options: InlineParseOptions) {
+  const color = <T extends string | undefined>(c: T) => resolveThemeColor(c, options.theme);
+  switch (tag.name) {
+    case "c":
+      style.color = color(tag.value);
+      break;
+    case "s": {
+      const num = Number(tag.value);
+      if (!Number.isNaN(num) && num > 0) style.fontSize = num;
+      else options.warnings?.push(`Invalid font size <s:${tag.value}>`);
+      break;
+    }
+    case "f": {
+      const family = resolveFontKey(tag.value ?? "", options.fonts);
+      if (family) style.fontFamily = family;
+      else options.warnings?.push(`Unknown font <f:${tag.value}>`);
+      break;
+    }
+    case "bg":
+      style.background = color(tag.value);
+      break;
+    case "stroke": {
+      const [c, width] = splitArgs(tag.value ?? "");
+      style.stroke = { color: color(c), width: optionalNumber(width) ?? 4 };
+      break;
+    }
+    case "shadow": {
+      const [c, offsetX, offsetY, blur] = splitArgs(tag.value ?? "");
+      style.shadow = {
+        color: color(c),
+        offsetX: optionalNumber(offsetX),
+        offsetY: optionalNumber(offsetY),
+        blur: optionalNumber(blur),
+      };
+      break;
+    }
+    case "grad": {
+      const args = splitArgs(tag.value ?? "");
+      const angle = optionalNumber(args[0]);
+      const colors = (angle === undefined ? args : args.slice(1)).map(color);
+      if (colors.length >= 2) style.gradient = { colors, angle };
+      else options.warnings?.push(`Gradient needs at least two colors <grad:${tag.value}>`);
+      break;
+    }
+    case "plate": {
+      const [c, radius] = splitArgs(tag.value ?? "");
+      style.plate = { color: color(c), radius: optionalNumber(radius) };
+      break;
+    }
+    case "box":
+    case "circle": {
+      const [c, width] = splitArgs(tag.value ?? "");
+      style.frame = { shape: tag.name, color: color(c), width: optionalNumber(width) };
+      break;
+    }
+    case "b":
+      style.bold = true;
+      break;
+    case "i":
+      style.italic = true;
+      break;
+    case "u":
+      style.underline = true;
+      break;
+    case "del":
+      style.strike = true;
+      break;
+  }
+}
+
+export function parseInline(
+  text: string,
+  base: { color: string; fontSize: number; fontFamily?: string; },
+  options: InlineParseOptions = {}
+): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const stack: { name: InlineTagName; value?: string }[] = [];
+  let style: InlineStyle = { color: base.color, fontSize: base.fontSize, fontFamily: base.fontFamily };
+
+  // 样式由栈自底向上叠加，闭合标签只移除最近一个同名标签，允许交叉嵌套
+  const restyle = () => {
+    style = { color: base.color, fontSize: base.fontSize, fontFamily: base.fontFamily };
+    for (const tag of stack) applyTag(style, tag, { fonts: options.fonts, theme: options.theme });
+  };
+
+  for (const tok of tokenizeInline(text, options.warnings)) {
+    if (tok.type === "text") {
+      spans.push({ ...style, text: tok.text });
+    } else if (tok.type === "image") {
+      spans.push({ ...style, text: "", image: tok.name });
+    } else if (tok.type === "open") {
+      stack.push({ name: tok.name, value: tok.value });
+      applyTag(style, tok, options);
+    } else {
+      let k = stack.length - 1;
+      while (k >= 0 && stack[k].name !== tok.name) k--;
+      if (k < 0) {
+        options.warnings?.push(`Unmatched closing tag </${tok.name}>`);
+        continue;
+      }
+      stack.splice(k, 1);
+      restyle();
+    }
+  }
+  return spans;
+}
+
+export function splitIntoInlineSafeLines(content: string, charsPerLine: number, warnings?: string[]): string[] {
+  const lines: string[] = [];
+  let visible = 0;
+  let buf = "";
+  const openStack: { name: InlineTagName; raw: string }[] = [];
+
+  const flushLine = (force = false) => {
+    if (buf.length > 0 || force) {
+      for (let k = openStack.length - 1; k >= 0; k--) {
+        buf += `</${openStack[k].name}>`;
+      }
+      lines.push(buf);
+      buf = openStack.map(tok => `<${tok.raw}>`).join("");
+      visible = 0;
+    }
+  };
+
+  for (const tok of tokenizeInline(content, warnings)) {
+    if (tok.type === "image") {
+      buf += `<${tok.raw}>`;
+      continue;
+    }
+    if (tok.type === "open") {
+      buf += `<${tok.raw}>`;
+      openStack.push({ name: tok.name, raw: tok.raw });
+      continue;
+    }
+    if (tok.type === "close") {
+      let k = openStack.length - 1;
+      while (k >= 0 && openStack[k].name !== tok.name) k--;
+      if (k >= 0) {
+        buf += `</${tok.name}>`;
+        openStack.splice(k, 1);
+      }
+      continue;
+    }
+    for (const ch of Array.from(tok.text)) {
+      if (ch === "\n") {
+        flushLine(true);
+        continue;
+      }
+      if (visible + 1 > charsPerLine) {
+        flushLine();
+      }
+      buf += escapeInlineText(ch);
+      visible += 1;
+    }
+  }
+
+  if (buf.length > 0 || openStack.length > 0) {
+    for (let k = openStack.length - 1; k >= 0; k--) {
+      buf += `</${openStack[k].name}>`;
+    }
+    lines.push(buf);
+  }
+
+  return lines;
+}
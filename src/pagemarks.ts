@@ -0,0 +1,80 @@
+// pagemarks.ts
+import type { CanvasRenderingContext2D } from "canvas";
+import type { PageKind, WatermarkConfig } from "./config";
+import { fontString } from "./layout";
+import { escapeInlineText } from "./markup";
+
+/** 当前页信息，用于替换页眉页脚、水印与结尾页中的占位符 */
+export interface PageContext {
+  kind: PageKind;
+  page: number;              // 从 1 开始，封面为第 1 页
+  total: number;             // 封面 + 正文页 + 结尾页
+  title: string;
+  handle: string;
+  date: string;
+}
+
+const TOKEN_RE = /\{(page|total|title|handle|date)\}/g;
+
+export function formatDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** 替换占位符；markup 为 true 时转义插入值中的尖括号，避免标题里的 "<" 被当成标签 */
+export function fillPageTokens(text: string, page: PageContext, markup = true) {
+  const values: Record<string, string> = {
+    page: String(page.page),
+    total: String(page.total),
+    title: page.title,
+    handle: page.handle,
+    date: page.date,
+  };
+  return text.replace(TOKEN_RE, (_, key: string) => markup ? escapeInlineText(values[key]) : values[key]);
+}
+
+export function showOnPage(pages: PageKind[] | undefined, kind: PageKind) {
+  return !pages || pages.includes(kind);
+}
+
+export function drawWatermark(
+  ctx: CanvasRenderingContext2D,
+  canvasW: number,
+  canvasH: number,
+  wm: WatermarkConfig,
+  page: PageContext
+) {
+  const text = fillPageTokens(wm.text, page, false).trim();
+  if (!text) return;
+
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, Math.min(1, wm.opacity));
+  ctx.fillStyle = wm.color;
+  ctx.font = fontString(wm.fontSize, wm.fontFamily);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  const rad = wm.rotation * Math.PI / 180;
+  const textW = ctx.measureText(text).width;
+
+  if (wm.mode === "corner") {
+    const margin = wm.margin ?? 32;
+    const corner = wm.corner ?? "bottom-right";
+    const cx = corner.endsWith("right") ? canvasW - margin - textW / 2 : margin + textW / 2;
+    const cy = corner.startsWith("bottom") ? canvasH - margin - wm.fontSize / 2 : margin + wm.fontSize / 2;
+    ctx.translate(cx, cy);
+    ctx.rotate(rad);
+    ctx.fillText(text, 0, 0);
+  } else {
+    // 以画布中心为原点旋转，按对角线长度铺满，旋转后四角也不会留空
+    const stepX = textW + (wm.gapX ?? 160);
+    const stepY = wm.fontSize + (wm.gapY ?? 140);
+    const reach = Math.hypot(canvasW, canvasH) / 2;
+    ctx.translate(canvasW / 2, canvasH / 2);
+    ctx.rotate(rad);
+    for (let row = 0, y = -reach; y <= reach; row++, y += stepY) {
+      const offset = row % 2 === 1 ? stepX / 2 : 0;
+      for (let x = -reach - offset; x <= reach + stepX; x += stepX) ctx.fillText(text, x, y);
+    }
+  }
+  ctx.restore();
+}
@@ -0,0 +1,68 @@
+// photo.ts
+import sharp from "sharp";
+import type { PhotoBackground } from "./config";
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+// 照片像素上限（约 8K×6K），防止超大图片解码占满内存
+const PHOTO_MAX_PIXELS = 50 * 1000 * 1000;
+
+/** base64 / data URL / Buffer 转为 Buffer，交给 sharp 处理 */
+export function photoBuffer(data: string | Buffer) {
+  if (Buffer.isBuffer(data)) return data;
+  const trimmed = data.trim();
+  const body = trimmed.startsWith("data:") ? trimmed.slice(trimmed.indexOf(",") + 1) : trimmed;
+  return Buffer.from(body, "base64");
+}
+
+/** 按比例放大到刚好铺满 W×H，再以焦点为中心裁切（焦点靠边时裁切框停在照片边缘） */
+async function coverCrop(input: Buffer, iw: number, ih: number, W: number, H: number, focus = { x: 0.5, y: 0.5 }) {
+  const scale = Math.max(W / iw, H / ih);
+  const sw = Math.max(W, Math.round(iw * scale));
+  const sh = Math.max(H, Math.round(ih * scale));
+  const left = Math.round(clamp(clamp(focus.x, 0, 1) * sw - W / 2, 0, sw - W));
+  const top = Math.round(clamp(clamp(focus.y, 0, 1) * sh - H / 2, 0, sh - H));
+  return sharp(input).resize(sw, sh, { fit: "fill" }).extract({ left, top, width: W, height: H }).toBuffer();
+}
+
+/**
+ * 把照片处理成画布大小的 PNG：先按 EXIF 方向摆正、透明部分铺白，再裁切或放入，最后做模糊与亮度调整。
+ * 色调与遮罩在画布上叠加（见 background.ts 的 drawPhotoOverlay），不在这里处理。
+ */
+export async function preparePhoto(input: Buffer, photo: PhotoBackground, W: number, H: number): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  if (width * height > PHOTO_MAX_PIXELS) {
+    throw new Error(`Photo is too large: ${width}x${height} (at most ${PHOTO_MAX_PIXELS / 1e6} megapixels)`);
+  }
+  const { data: oriented, info } = await sharp(input, { limitInputPixels: PHOTO_MAX_PIXELS })
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .toBuffer({ resolveWithObject: true });
+  let fitted: Buffer;
+  if (photo.fit === "contain") {
+    const scale = Math.min(W / info.width, H / info.height);
+    const cw = Math.max(1, Math.round(info.width * scale));
+    const ch = Math.max(1, Math.round(info.height * scale));
+    const backdrop = await coverCrop(oriented, info.width, info.height, W, H);
+    const inner = await sharp(oriented).resize(cw, ch, { fit: "fill" }).toBuffer();
+    fitted = await sharp(backdrop)
+      .blur(Math.max(20, Math.min(W, H) / 30))
+      .composite([{ input: inner, left: Math.round((W - cw) / 2), top: Math.round((H - ch) / 2) }])
+      .toBuffer();
+  } else {
+    fitted = await coverCrop(oriented, info.width, info.height, W, H, photo.focus);
+  }
+
+  let pipeline = sharp(fitted);
+  // sharp 的 sigma 下限为 0.3
+  if (photo.blur && photo.blur >= 0.3) pipeline = pipeline.blur(photo.blur);
+  if (photo.brightness !== undefined && photo.brightness !== 1) {
+    pipeline = pipeline.linear(Math.max(0, photo.brightness), 0);
+  }
+  return pipeline.png().toBuffer();
+}
+
+/** 底图是否有透明像素，只有这样才能盖在照片上作为边框 */
+export async function hasTransparency(file: string) {
+  const { isOpaque } = await sharp(file).stats();
+  return !isOpaque;
+}
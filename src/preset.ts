@@ -0,0 +1,69 @@
+// preset.ts
+import config, { type AppConfig, type PageElement, type PageKind, type PageSpec, type QRCodeStyle } from "./config";
+import { BODY_TEXT_DEFAULTS } from "./layout";
+import { showOnPage } from "./pagemarks";
+import type { QRCodeRequest, RenderRequest } from "./render";
+
+/** 第 i 个二维码沿用 styles[i] 的位置与样式，不足时取最后一项 */
+export function resolveQRCodes(styles: QRCodeStyle[], items: RenderRequest["qrcodes"]) {
+  return (items ?? []).map((item, i) => {
+    const req: QRCodeRequest = typeof item === "string" ? { text: item } : item;
+    const base = styles[Math.min(i, styles.length - 1)] ?? config.qrcodes[0];
+    return { ...base, ...req };
+  });
+}
+
+/**
+ * 默认的封面-正文-结尾三段式：封面为 title 各行，pages 中有文字或插图的每一项为一页正文，
+ * 结尾页为 ending 文字与二维码。每页最底层是随机贴纸，其上是 shapes 中的装饰图形。
+ */
+export function defaultLayout(appcfg: AppConfig, request: RenderRequest): PageSpec[] {
+  const overlay: PageElement = { type: "overlay", id: "overlay" };
+  const decorations = (kind: PageKind): PageElement[] => appcfg.shapes
+    .filter(el => showOnPage(el.pages, kind))
+    .map(el => ({ ...el, type: "shape" }));
+
+  const cover: PageSpec = {
+    kind: "cover",
+    name: "cover",
+    elements: [
+      overlay,
+      ...decorations("cover"),
+      ...appcfg.title.map((t, i): PageElement => ({ ...t, type: "text", id: `title[${i}]`, maxLines: 1 })),
+    ],
+  };
+
+  const texts = appcfg.pages.flatMap((t, p): PageSpec[] => {
+    const figures = request.pageImages?.[p];
+    if (!t.text && !figures?.length) return [];
+    return [{
+      kind: "text",
+      elements: [
+        overlay,
+        ...decorations("text"),
+        {
+          ...t,
+          type: "text",
+          id: `pages[${p}]`,
+          fontSize: t.fontSize ?? BODY_TEXT_DEFAULTS.fontSize,
+          charsPerLine: t.charsPerLine ?? BODY_TEXT_DEFAULTS.charsPerLine,
+          figures,
+        },
+      ],
+    }];
+  });
+
+  const ending: PageSpec = {
+    kind: "ending",
+    name: "ending",
+    elements: [
+      overlay,
+      ...decorations("ending"),
+      ...appcfg.ending.flatMap((t, i): PageElement[] => t.text ? [{ ...t, type: "text", id: `ending[${i}]`, tokens: true }] : []),
+      ...resolveQRCodes(appcfg.qrcodes, request.qrcodes)
+        .flatMap((qr, i): PageElement[] => qr.text ? [{ ...qr, type: "qrcode", id: `qrcodes[${i}]` }] : []),
+    ],
+  };
+
+  return [cover, ...texts, ending];
+}
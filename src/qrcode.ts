@@ -0,0 +1,39 @@
+// qrcode.ts
+import * as QRCode from "qrcode";
+import type { CanvasRenderingContext2D } from "canvas";
+import type { QRCodeStyle } from "./config";
+
+/**
+ * 本地生成二维码并逐行绘制模块，不依赖外部服务。
+ * 模块边界取整，避免缩放后相邻方块之间出现细缝。
+ */
+export function drawQRCode(ctx: CanvasRenderingContext2D, text: string, style: QRCodeStyle) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: style.errorCorrectionLevel ?? "M" });
+  const margin = style.margin ?? 2;
+  const cell = style.size / (modules.size + margin * 2);
+  const edge = (origin: number, k: number) => Math.round(origin + (k + margin) * cell);
+
+  ctx.save();
+  if (style.background) {
+    ctx.fillStyle = style.background;
+    ctx.fillRect(style.x, style.y, style.size, style.size);
+  }
+  ctx.fillStyle = style.color;
+  for (let row = 0; row < modules.size; row++) {
+    const top = edge(style.y, row);
+    const bottom = edge(style.y, row + 1);
+    for (let col = 0; col < modules.size;) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      // 同一行连续的深色模块合并为一个矩形
+      let end = col + 1;
+      while (end < modules.size && modules.get(row, end)) end++;
+      const left = edge(style.x, col);
+      ctx.fillRect(left, top, edge(style.x, end) - left, bottom - top);
+      col = end;
+    }
+  }
+  ctx.restore();
+}
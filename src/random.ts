@@ -0,0 +1,40 @@
+// random.ts
+export type Seed = number | string;
+export type Random = () => number;
+
+/** FNV-1a 32 位哈希 */
+function hash32(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** 32 位无符号整数原样使用，其余（字符串、小数、负数）取哈希 */
+export function normalizeSeed(seed: Seed): number {
+  if (typeof seed === "number" && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff) return seed;
+  return hash32(String(seed));
+}
+
+/** 由主种子派生各页的种子，增减页数不会影响其他页的随机序列 */
+export function deriveSeed(seed: number, label: string) {
+  return hash32(`${seed}:${label}`);
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** mulberry32：同一种子总是产生相同的 [0, 1) 序列 */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
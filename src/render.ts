@@ -2,30 +2,61 @@
 import * as fs from "node:fs/promises";
 import * as fssync from "node:fs";
 import * as path from "node:path";
-import { createCanvas, loadImage, registerFont, CanvasRenderingContext2D } from "canvas";
-import config, { AppConfig } from "./config";
+import { createCanvas, loadImage, registerFont, CanvasRenderingContext2D, type Canvas, type Image } from "canvas";
+import sharp from "sharp";
+import config, {
+  AppConfig,
+  BackgroundConfig,
+  BackgroundsConfig,
+  BaseTextStyle,
+  EmbeddedImage,
+  ImageConfig,
+  OutputConfig,
+  PageKind,
+  PageMarkStyle,
+  QRCodeStyle,
+  Rect,
+  PageElement,
+  PageSpec,
+  PhotoBackground,
+  ShapeElement,
+  SizePreset,
+  TextElement,
+  ThemeColors,
+} from "./config";
+import { defaultLayout } from "./preset";
+import { drawImageElement, drawShape } from "./shapes";
+import { applyTheme, currentTheme, mergeThemes } from "./theme";
+import { drawPhotoOverlay, drawProceduralBackground, isBackgroundConfig } from "./background";
+import { declaredBackground } from "./templates";
+import { emojiSpriteFiles, resolveFontPath } from "./fonts";
+import { drawQRCode } from "./qrcode";
+import { createRandom, deriveSeed, normalizeSeed, randomSeed, type Random, type Seed } from "./random";
+import {
+  clipLines,
+  defaultLineHeight,
+  drawLayoutLines,
+  fitRichBlock,
+  layoutBounds,
+  layoutFigure,
+  layoutRichText,
+  paginateLines,
+  PAGE_MARK_DEFAULTS,
+  TEXT_DEFAULTS,
+  type FigureSource,
+  type LayoutLine,
+  type RichBlockStyle,
+} from "./layout";
+import { hasTransparency, photoBuffer, preparePhoto } from "./photo";
+import { resolveSafePath } from "./utils";
+import { applyTemplateManifest, loadTemplateManifest } from "./manifest";
+import { drawWatermark, fillPageTokens, formatDate, showOnPage, type PageContext } from "./pagemarks";
+import { plainText } from "./markup";
+import type { MarkdownImport } from "./markdown";
 
 const PROJECT_ROOT = path.resolve(__dirname, "../../");
 console.log(PROJECT_ROOT)
 
-type TextAlign = "left" | "center" | "right" | "justify";
-
-interface BaseTextStyle {
-  x: number;
-  y: number;
-  fontSize: number;
-  color: string;
-  fontFamily: string;
-  textAlign: TextAlign;
-  lineHeight?: number;
-  width?: number;
-  height?: number;
-  maxLines?: number;
-  text?: string;
-  enableInlineMarkup?: boolean;
-  charsPerLine?: number;
-}
-
 interface OverlayPosition {
   asset?: string;
   x?: number; 
@@ -43,6 +74,10 @@ interface OverlayConfig {
   scaleRange: [number, number];
   rotationRange: [number, number];
   alphaRange: [number, number];
+  avoidText?: boolean;
+  keepOut?: Rect[];
+  margin?: number;
+  allowOverlap?: boolean;
 }
 
 interface TemplatesConfig {
@@ -50,25 +85,78 @@ interface TemplatesConfig {
   defaultName: string;
 }
 
+export type { EmbeddedImage } from "./config";
+
+export type QRCodeRequest = { text: string } & Partial<QRCodeStyle>;
+
 export interface RenderRequest {
   titleDir: string;
 
   templateName?: string;
 
   overrides?: Partial<Pick<AppConfig,
-    "output" | "image" | "templates">> & {
+    "templates" | "pagination" | "figure" | "watermark" | "account" | "sizes" | "markdown">> & {
+      output?: Partial<OutputConfig>;
+      image?: Partial<ImageConfig>;
+      // 生成背景：未写 mode 时沿用配置（默认 fallback），要替换模板底图需写 mode: "replace"
+      backgrounds?: Partial<BackgroundsConfig>;
+      themes?: Record<string, Partial<ThemeColors>>;
       title?: Partial<BaseTextStyle>[];
       pages?: Partial<BaseTextStyle>[];
+      ending?: Partial<BaseTextStyle>[];
+      header?: Partial<PageMarkStyle>[];
+      footer?: Partial<PageMarkStyle>[];
       overlay?: Partial<OverlayConfig>[];
     };
 
+  // 主题名（config.themes 或模板 manifest 中的 themes），不填时用模板或全局的默认主题
+  theme?: string;
+
   titleTexts?: string[];
 
   pages?: string[]; 
 
+  // 正文插图：images 供 <img:name> 引用；pageImages[i] 放在第 i 页正文之前
+  images?: Record<string, string | EmbeddedImage>;
+  pageImages?: EmbeddedImage[][];
+
+  endingTexts?: string[];
+  // 结尾页二维码：第 i 个沿用 config.qrcodes[i] 的位置与样式（不足时取最后一项）
+  qrcodes?: (string | QRCodeRequest)[];
+
   overlayCover?: Partial<OverlayConfig>[];
   overlayPages?: Partial<OverlayConfig>[][];
   overlayEnding?: Partial<OverlayConfig>[];
+
+  // 同时渲染到多个尺寸预设（config.sizes 的 key），每个尺寸输出到 titleDir 下的同名子目录
+  sizes?: string[];
+
+  // 贴纸的选取、缩放、旋转、透明度与位置由种子决定，相同种子可复现同一版式
+  seed?: Seed;
+  // 单页种子优先于由 seed 派生的种子；pages[i] 对应 text_{i+1}.png
+  pageSeeds?: { cover?: Seed; pages?: Seed[]; ending?: Seed };
+
+  // 自定义页面描述，替代由 title/pages/ending 生成的默认三段式
+  layout?: PageSpec[];
+  // 按元素 id 填入文字，如 { "title[1]": "标题", "left": "左栏内容" }
+  texts?: Record<string, string>;
+  // 追加到 config.shapes 之后的装饰图形，用 pages 限定出现的页面
+  shapes?: ShapeElement[];
+  // 用户照片作为背景（默认只用于封面），模板底图有透明区域时盖在上面作为边框
+  photo?: PhotoBackground;
+}
+
+export interface PageSeeds {
+  cover: number;
+  pages: number[];
+  ending: number;
+}
+
+export interface RenderedPage {
+  name: string;
+  kind: PageKind;
+  file: string;
+  seed: number;
 }
 
 export interface RenderResult {
@@ -76,8 +164,18 @@ export interface RenderResult {
   texts: string[];
   ending: string;
   outputDir: string;
+  outputs: RenderedPage[];   // 按顺序列出全部输出页
+  warnings: string[];
+  seed: number;
+  seeds: PageSeeds;
+  // 请求了 sizes 时按顺序给出每个尺寸的结果，顶层的 cover/texts/ending 为第一个尺寸
+  sizes?: SizeRenderResult[];
 }
 
+export type SizeRenderResult = { name: string; width: number; height: number } &
+  Omit<RenderResult, "warnings" | "seed" | "sizes">;
+
+
 function ensureDirSync(dir: string) {
   if (!fssync.existsSync(dir)) fssync.mkdirSync(dir, { recursive: true });
 }
@@ -106,6 +204,14 @@ function applyOverrides(base: AppConfig, req: RenderRequest): AppConfig {
   if (req.overrides?.output) Object.assign(merged.output, req.overrides.output);
   if (req.overrides?.image) Object.assign(merged.image, req.overrides.image);
   if (req.overrides?.templates) Object.assign(merged.templates, req.overrides.templates);
+  if (req.overrides?.pagination) Object.assign(merged.pagination, req.overrides.pagination);
+  if (req.overrides?.figure) Object.assign(merged.figure, req.overrides.figure);
+  if (req.overrides?.watermark) Object.assign(merged.watermark, req.overrides.watermark);
+  if (req.overrides?.account) Object.assign(merged.account, req.overrides.account);
+  if (req.overrides?.sizes) Object.assign(merged.sizes, req.overrides.sizes);
+  if (req.overrides?.backgrounds) Object.assign(merged.backgrounds, req.overrides.backgrounds);
+  if (req.overrides?.markdown) Object.assign(merged.markdown, req.overrides.markdown);
+  mergeThemes(merged.themes, req.overrides?.themes);
 
   if (req.overrides?.title && Array.isArray(merged.title)) {
     req.overrides.title.forEach((partial, i) => {
@@ -114,9 +220,25 @@ function applyOverrides(base: AppConfig, req: RenderRequest): AppConfig {
   }
   if (req.overrides?.pages && Array.isArray(req.overrides.pages)) {
     req.overrides.pages.forEach((partial, i) => {
+      // 与页眉页脚相同，超出默认槽位数时以第一个槽位为模板追加（Markdown 导入的页数可能更多）
       if (merged.pages[i]) Object.assign(merged.pages[i], partial);
+      else if (merged.pages[0]) (merged.pages as BaseTextStyle[])[i] = { ...merged.pages[0], text: "", ...partial };
+    });
+  }
+  if (req.overrides?.ending && Array.isArray(merged.ending)) {
+    req.overrides.ending.forEach((partial, i) => {
+      if (merged.ending[i]) Object.assign(merged.ending[i], partial);
+    });
+  }
+  for (const slot of ["header", "footer"] as const) {
+    req.overrides?.[slot]?.forEach((partial, i) => {
+      // 超出默认槽位数时以第一个槽位为模板追加
+      if (merged[slot][i]) Object.assign(merged[slot][i], partial);
+      else if (merged[slot][0]) merged[slot][i] = { ...merged[slot][0], text: "", ...partial };
     });
   }
+  if (req.layout) merged.layout = structuredClone(req.layout);
+  if (req.shapes) merged.shapes = [...merged.shapes, ...structuredClone(req.shapes)];
   if (req.overrides?.overlay && Array.isArray(req.overrides.overlay)) {
     req.overrides.overlay.forEach((partial, i) => {
       if (merged.overlay[i]) Object.assign(merged.overlay[i], partial);
@@ -130,6 +252,13 @@ function applyOverrides(base: AppConfig, req: RenderRequest): AppConfig {
     });
   }
 
+  if (req.endingTexts && Array.isArray(merged.ending)) {
+    req.endingTexts.forEach((txt, i) => {
+      if (!merged.ending[i]) return;
+      merged.ending[i].text = (txt ?? "").toString();
+    });
+  }
+
   if (req.pages && Array.isArray(merged.pages)) {
     req.pages.forEach((txt, i) => {
       if (!merged.pages[i]) return;
@@ -140,212 +269,284 @@ function applyOverrides(base: AppConfig, req: RenderRequest): AppConfig {
   return merged;
 }
 
-function splitIntoInlineSafeLines(content: string, charsPerLine: number): string[] {
-  const lines: string[] = [];
-  let i = 0;
-  let visible = 0;
-  let buf = "";
-  const openStack: string[] = [];
-
-  const isOpenTag = (tag: string) => tag.startsWith("c:") || tag.startsWith("s:");
-  const isCloseTag = (tag: string) => tag === "/c" || tag === "/s";
-  const closeTokenFor = (openTok: string) => {
-    if (openTok.startsWith("c:")) return "</c>";
-    if (openTok.startsWith("s:")) return "</s>";
-    return "";
+/** 坐标按 image 尺寸与预设尺寸的比例换算：横向按宽、纵向按高，字号取两者中较小的比例 */
+function applySizePreset(base: AppConfig, preset: SizePreset): AppConfig {
+  const cfg: AppConfig = structuredClone(base);
+  const sx = preset.width / base.image.width;
+  const sy = preset.height / base.image.height;
+  const s = Math.min(sx, sy);
+  const scaleRect = (r: Rect): Rect => ({ x: r.x * sx, y: r.y * sy, width: r.width * sx, height: r.height * sy });
+
+  const scaleText = (t: BaseTextStyle) => {
+    t.x = Math.round(t.x * sx);
+    t.y = Math.round(t.y * sy);
+    if (t.width !== undefined) t.width = Math.round(t.width * sx);
+    if (t.height !== undefined) t.height = Math.round(t.height * sy);
+    t.fontSize = Math.round(t.fontSize * s);
+    if (t.lineHeight !== undefined) t.lineHeight = Math.round(t.lineHeight * s);
+    if (t.fit?.minFontSize !== undefined) t.fit.minFontSize = Math.round(t.fit.minFontSize * s);
+    if (t.fit?.maxFontSize !== undefined) t.fit.maxFontSize = Math.round(t.fit.maxFontSize * s);
+  };
+  const scaleShape = (el: ShapeElement) => {
+    Object.assign(el, scaleRect(el));
+    if (el.x2 !== undefined) el.x2 *= sx;
+    if (el.y2 !== undefined) el.y2 *= sy;
+    if (el.tail) el.tail = { x: el.tail.x * sx, y: el.tail.y * sy, width: el.tail.width && el.tail.width * s };
+    if (el.fontSize !== undefined) el.fontSize = Math.round(el.fontSize * s);
   };
-  const openTokenToTag = (openTok: string) => `<${openTok}>`;
+  [...cfg.title, ...cfg.pages, ...cfg.ending, ...cfg.header, ...cfg.footer].forEach(scaleText);
+  cfg.shapes.forEach(scaleShape);
+  cfg.layout?.forEach(spec => spec.elements.forEach(el => {
+    if (el.type === "text") scaleText(el);
+    else if (el.type === "shape") scaleShape(el);
+    else if (el.type === "image") Object.assign(el, scaleRect(el));
+    else if (el.type === "qrcode") Object.assign(el, { x: Math.round(el.x * sx), y: Math.round(el.y * sy), size: Math.round(el.size * s) });
+    else el.layers?.forEach(o => { if (o.keepOut) o.keepOut = o.keepOut.map(scaleRect); });
+  }));
 
-  const flushLine = (force = false) => {
-    if (buf.length > 0 || force) {
-      for (let k = openStack.length - 1; k >= 0; k--) {
-        buf += closeTokenFor(openStack[k]);
-      }
-      lines.push(buf);
-      buf = openStack.map(openTok => openTokenToTag(openTok)).join("");
-      visible = 0;
-    }
+  cfg.qrcodes = cfg.qrcodes.map(q => ({ ...q, x: Math.round(q.x * sx), y: Math.round(q.y * sy), size: Math.round(q.size * s) }));
+  cfg.watermark.fontSize = Math.round(cfg.watermark.fontSize * s);
+  cfg.figure.maxHeight = Math.round(cfg.figure.maxHeight * sy);
+  cfg.overlay.forEach(o => { if (o.keepOut) o.keepOut = o.keepOut.map(scaleRect); });
+  cfg.image = { width: preset.width, height: preset.height };
+
+  preset.title?.forEach((partial, i) => { if (cfg.title[i]) Object.assign(cfg.title[i], partial); });
+  if (preset.pages) cfg.pages.forEach(p => Object.assign(p, preset.pages));
+  preset.ending?.forEach((partial, i) => { if (cfg.ending[i]) Object.assign(cfg.ending[i], partial); });
+  return cfg;
+}
+
+function toRichStyle(
+  t: BaseTextStyle,
+  appcfg: AppConfig,
+  defaults: { fontSize: number; charsPerLine: number },
+  images: Pick<RichBlockStyle, "emojiImages" | "images"> = {}
+): RichBlockStyle {
+  const fontSize = t.fontSize ?? defaults.fontSize;
+  return {
+    x: t.x,
+    y: t.y,
+    fontFamily: t.fontFamily,
+    fontSize,
+    lineHeight: t.lineHeight ?? defaultLineHeight(fontSize),
+    textAlign: t.textAlign,
+    color: t.color ?? "#000000",
+    maxLines: t.maxLines,
+    charsPerLine: t.charsPerLine ?? defaults.charsPerLine,
+    width: t.width,
+    height: t.height,
+    lineBreak: t.lineBreak,
+    stroke: t.stroke,
+    shadow: t.shadow,
+    gradient: t.gradient,
+    plate: t.plate,
+    writingMode: t.writingMode,
+    enableInlineMarkup: t.enableInlineMarkup,
+    blocks: t.blocks,
+    fonts: appcfg.fonts,
+    theme: currentTheme(appcfg),
+    figure: appcfg.figure,
+    ...images,
   };
+}
 
-  while (i < content.length) {
-    const ch = content[i];
+function templateDirOf(templates: TemplatesConfig, templateName?: string) {
+  const name = templateName || templates.defaultName;
+  const baseDirAbs = path.isAbsolute(templates.baseDir)
+    ? templates.baseDir
+    : path.resolve(PROJECT_ROOT, templates.baseDir);
+  return path.join(baseDirAbs, name);
+}
 
-    if (ch === "\n") {
-      flushLine(true);
-      i++;
-      continue;
-    }
+/**
+ * 底图优先使用模板中的 PNG；backgrounds.mode 为 replace 时总是使用生成背景，
+ * 为 fallback 时仅在 PNG 缺失时使用，都没有时报错。
+ */
+async function loadTemplateImages(templates: TemplatesConfig, backgrounds: BackgroundsConfig, templateName?: string) {
+  const base = templateDirOf(templates, templateName);
+  const assetsDir = path.join(base, "assets");
 
-    if (ch === "<") {
-      const closeIdx = content.indexOf(">", i);
-      if (closeIdx !== -1) {
-        const rawTag = content.slice(i + 1, closeIdx).trim();
-        if (isOpenTag(rawTag)) {
-          buf += `<${rawTag}>`;
-          openStack.push(rawTag);
-          i = closeIdx + 1;
-          continue;
-        } else if (isCloseTag(rawTag)) {
-          buf += `<${rawTag}>`;
-          const expected = rawTag === "/c" ? "c:" : "s:";
-          for (let k = openStack.length - 1; k >= 0; k--) {
-            if (openStack[k].startsWith(expected)) {
-              openStack.splice(k, 1);
-              break;
-            }
-          }
-          i = closeIdx + 1;
-          continue;
-        }
-        const token = content.slice(i, closeIdx + 1);
-        if (visible + token.length > charsPerLine) {
-          flushLine();
-        }
-        buf += token;
-        visible += token.length;
-        i = closeIdx + 1;
-        continue;
-      }
-    }
+  const loadBase = async (page: PageKind): Promise<PageBackground> => {
+    const declared = declaredBackground(backgrounds, page);
+    if (declared && backgrounds.mode === "replace") return declared;
+    const p = path.join(base, `${page}.png`);
+    const st = await fs.stat(p).catch(() => null);
+    if (st) return loadImage(p);
+    if (declared) return declared;
+    throw new Error(`Template image missing: ${p}`);
+  };
+  const [coverBase, textBase, endingBase] = await Promise.all([loadBase("cover"), loadBase("text"), loadBase("ending")]);
 
-    if (visible + 1 > charsPerLine) {
-      flushLine();
-    }
-    buf += ch;
-    visible += 1;
-    i++;
+  const assets: string[] = [];
+  if (fssync.existsSync(assetsDir)) {
+    const files = await fs.readdir(assetsDir);
+    files.filter(f => f.toLowerCase().endsWith(".png")).forEach(f => {
+      assets.push(path.join(assetsDir, f));
+    });
   }
 
-  if (buf.length > 0 || openStack.length > 0) {
-    for (let k = openStack.length - 1; k >= 0; k--) {
-      buf += closeTokenFor(openStack[k]);
-    }
-    lines.push(buf);
-  }
+  return { dir: base, coverBase, textBase, endingBase, assets };
+}
 
-  return lines;
+/** 只接受 base64 / data URL / Buffer，不读取请求中给出的本地路径 */
+async function loadEmbeddedImage(data: string | Buffer) {
+  if (Buffer.isBuffer(data)) return loadImage(data);
+  const trimmed = data.trim();
+  if (trimmed.startsWith("data:")) return loadImage(trimmed);
+  return loadImage(Buffer.from(trimmed, "base64"));
 }
 
+/** 预加载文本中出现的 emoji 图片，供排版时按字素替换 */
+async function loadEmojiSprites(texts: string[], emoji: AppConfig["emoji"]) {
+  const sprites = new Map<string, Image>();
+  for (const [grapheme, file] of await emojiSpriteFiles(texts, emoji)) sprites.set(grapheme, await loadImage(file));
+  return sprites;
+}
 
-type InlineSpan = { text: string; color?: string; fontSize?: number; };
-function parseInline(text: string, base: { color: string; fontSize: number; }): InlineSpan[] {
-  const spans: InlineSpan[] = [];
-  const stack: { color?: string; fontSize?: number }[] = [ { color: base.color, fontSize: base.fontSize } ];
-  let i = 0, buf = "";
+/** 照片按当前画布尺寸处理；读取或处理失败时记告警，页面退回模板底图 */
+async function loadPhoto(photo: PhotoBackground, images: RenderRequest["images"], W: number, H: number, warnings: string[]) {
+  const entry = photo.name !== undefined ? images?.[photo.name] : undefined;
+  const data = photo.data ?? (typeof entry === "string" ? entry : entry?.data);
+  if (!data) {
+    warnings.push(photo.name !== undefined ? `photo: image not found: ${photo.name}` : "photo: data is required");
+    return undefined;
+  }
+  try {
+    return await loadImage(await preparePhoto(photoBuffer(data), photo, W, H));
+  } catch (e) {
+    warnings.push(`photo: ${(e as Error).message}`);
+    return undefined;
+  }
+}
 
-  const pushBuf = () => {
-    if (!buf) return;
-    const top = stack[stack.length - 1]!;
-    spans.push({ text: buf, color: top.color, fontSize: top.fontSize });
-    buf = "";
-  };
+async function loadFigures(images: RenderRequest["images"], warnings: string[]) {
+  const figures = new Map<string, FigureSource>();
+  for (const [name, entry] of Object.entries(images ?? {})) {
+    const img: EmbeddedImage = typeof entry === "string" ? { data: entry } : entry;
+    if (!img.data) {
+      warnings.push(`images.${name}: data is required`);
+      continue;
+    }
+    try {
+      figures.set(name, { image: await loadEmbeddedImage(img.data), radius: img.radius, caption: img.caption });
+    } catch (e) {
+      warnings.push(`images.${name}: ${(e as Error).message}`);
+    }
+  }
+  return figures;
+}
 
-  while (i < text.length) {
-    if (text[i] === "<") {
-      const closeIdx = text.indexOf(">", i);
-      if (closeIdx === -1) { buf += text[i++]; continue; }
-      const tag = text.slice(i + 1, closeIdx).trim();
-      if (tag === "/c" || tag === "/s") {
-        pushBuf();
-        const prev = stack.pop();
-        if (stack.length === 0) stack.push(prev ?? { color: base.color, fontSize: base.fontSize });
-        i = closeIdx + 1;
-        continue;
+async function resolvePageFigures(items: EmbeddedImage[] | undefined, figures: Map<string, FigureSource>, warnings: string[]) {
+  const out: FigureSource[] = [];
+  for (const item of items ?? []) {
+    if (item.data) {
+      try {
+        out.push({ image: await loadEmbeddedImage(item.data), radius: item.radius, caption: item.caption });
+      } catch (e) {
+        warnings.push((e as Error).message);
       }
-      if (tag.startsWith("c:") || tag.startsWith("s:")) {
-        pushBuf();
-        const top = { ...stack[stack.length - 1] };
-        if (tag.startsWith("c:")) top.color = tag.slice(2);
-        if (tag.startsWith("s:")) {
-          const num = Number(tag.slice(2));
-          if (!Number.isNaN(num) && num > 0) top.fontSize = num;
-        }
-        stack.push(top);
-        i = closeIdx + 1;
-        continue;
-      }
-      buf += text.slice(i, closeIdx + 1);
-      i = closeIdx + 1;
-    } else {
-      buf += text[i++];
+      continue;
+    }
+    const ref = item.name !== undefined ? figures.get(item.name) : undefined;
+    if (!ref) {
+      warnings.push(`Unknown image ${item.name ?? "(no name or data)"}`);
+      continue;
     }
+    out.push({ ...ref, radius: item.radius ?? ref.radius, caption: item.caption ?? ref.caption });
   }
-  pushBuf();
-  return spans;
+  return out;
 }
 
-function normalizeNewlines(s: string): string {
-  if (!s) return s;
-  return s
-    .replace(/\r\n/g, "\n")  // CRLF -> LF
-    .replace(/\r/g, "\n")    // CR -> LF
-    .replace(/\\n/g, "\n");  // 字面量 \n -> 真换行
+interface TextBlock {
+  style: RichBlockStyle;
+  lines: LayoutLine[];
 }
 
-function drawRichBlock(
+function layoutBlock(
   ctx: CanvasRenderingContext2D,
-  content: string,
-  base: Required<Pick<BaseTextStyle, "x"|"y"|"fontFamily"|"fontSize"|"lineHeight"|"textAlign"|"color">> & { maxLines?: number; charsPerLine?: number; width?: number; }
-) {
-  content = normalizeNewlines(content);
-  const charsPerLine = base.charsPerLine ?? 20;
-  const lineHeight = base.lineHeight ?? Math.round(base.fontSize * 1.8);
-
-  const allLines = splitIntoInlineSafeLines(content, charsPerLine);
-  const maxLines = base.maxLines ?? allLines.length;
-  const lines = allLines.slice(0, maxLines);
-
-  for (let li = 0; li < lines.length; li++) {
-    const lineText = lines[li];
-    const spans = parseInline(lineText, { color: base.color, fontSize: base.fontSize });
-
-    let cursorX = base.x;
-    const y = base.y + li * lineHeight;
-
-    for (const sp of spans) {
-      ctx.font = `${sp.fontSize ?? base.fontSize}px "${base.fontFamily}"`;
-      ctx.fillStyle = sp.color ?? base.color;
-      ctx.textAlign = "left";
-      ctx.textBaseline = "top";
-      ctx.fillText(sp.text, cursorX, y);
-      const w = ctx.measureText(sp.text).width;
-      cursorX += w;
-    }
-  }
+  text: string,
+  style: RichBlockStyle,
+  fit: BaseTextStyle["fit"],
+  warnings: string[],
+  prefix: string
+): TextBlock {
+  const fitted = fit ? fitRichBlock(ctx, text, style, fit) : style;
+  const blockWarnings: string[] = [];
+  const lines = layoutRichText(ctx, text, fitted, blockWarnings);
+  warnings.push(...blockWarnings.map(w => `${prefix}: ${w}`));
+  return { style: fitted, lines: clipLines(lines, fitted) };
 }
 
-async function loadTemplateImages(templates: TemplatesConfig, templateName?: string) {
-  const name = templateName || templates.defaultName;
-  const baseDirAbs = path.isAbsolute(templates.baseDir)
-    ? templates.baseDir
-    : path.resolve(PROJECT_ROOT, templates.baseDir);
-  const base = path.join(baseDirAbs, name);
-  const coverPath = path.join(base, "cover.png");
-  const textPath = path.join(base, "text.png");
-  const endingPath = path.join(base, "ending.png");
-  const assetsDir = path.join(base, "assets");
-
-  await Promise.all([coverPath, textPath, endingPath].map(async p => {
-    const st = await fs.stat(p).catch(() => null);
-    if (!st) throw new Error(`Template image missing: ${p}`);
-  }));
+function blockRects(blocks: TextBlock[]) {
+  return blocks.flatMap(b => layoutBounds(b.lines, b.style) ?? []);
+}
 
-  const assets: string[] = [];
-  if (fssync.existsSync(assetsDir)) {
-    const files = await fs.readdir(assetsDir);
-    files.filter(f => f.toLowerCase().endsWith(".png")).forEach(f => {
-      assets.push(path.join(assetsDir, f));
+function layoutPageMarks(
+  ctx: CanvasRenderingContext2D,
+  appcfg: AppConfig,
+  page: PageContext,
+  emojiImages: RichBlockStyle["emojiImages"],
+  warnings: string[]
+): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  for (const slot of ["header", "footer"] as const) {
+    appcfg[slot].forEach((mark, i) => {
+      if (!mark?.text || !showOnPage(mark.pages, page.kind)) return;
+      const text = fillPageTokens(mark.text, page, mark.enableInlineMarkup !== false);
+      const style = toRichStyle(mark, appcfg, PAGE_MARK_DEFAULTS, { emojiImages });
+      blocks.push(layoutBlock(ctx, text, style, mark.fit, warnings, `${slot}[${i}]`));
     });
   }
+  return blocks;
+}
+
+function drawPageMarks(ctx: CanvasRenderingContext2D, appcfg: AppConfig, page: PageContext, marks: TextBlock[]) {
+  marks.forEach(b => drawLayoutLines(ctx, b.lines, b.style));
+  if (appcfg.watermark.enable && showOnPage(appcfg.watermark.pages, page.kind)) {
+    drawWatermark(ctx, appcfg.image.width, appcfg.image.height, appcfg.watermark, page);
+  }
+}
+
+/** 模板底图按 cover 方式铺满画布：比例不同的尺寸预设居中裁切，不拉伸变形；生成背景直接按画布尺寸绘制 */
+function drawBackground(ctx: CanvasRenderingContext2D, bg: PageBackground, canvasW: number, canvasH: number, seed: number) {
+  if (isBackgroundConfig(bg)) {
+    drawProceduralBackground(ctx, bg, canvasW, canvasH, createRandom(deriveSeed(seed, "background")));
+    return;
+  }
+  const scale = Math.max(canvasW / bg.width, canvasH / bg.height);
+  const w = bg.width * scale;
+  const h = bg.height * scale;
+  ctx.drawImage(bg, (canvasW - w) / 2, (canvasH - h) / 2, w, h);
+}
+
+function outputExtension(format: OutputConfig["format"]) {
+  return format === "jpg" || format === "jpeg" ? "jpg" : format;
+}
 
-  return { coverPath, textPath, endingPath, assets };
+/** node-canvas 只能导出 PNG/JPEG，WebP 由 sharp 从 PNG 转码 */
+async function encodeCanvas(canvas: Canvas, output: OutputConfig): Promise<Buffer> {
+  const q = output.quality;
+  switch (output.format) {
+    case "jpg":
+    case "jpeg":
+      return canvas.toBuffer("image/jpeg", {
+        quality: q,
+        progressive: output.progressive ?? false,
+        chromaSubsampling: output.chromaSubsampling ?? true,
+      });
+    case "webp":
+      return sharp(canvas.toBuffer("image/png"))
+        .webp({ quality: Math.max(1, Math.round(q * 100)), lossless: output.lossless ?? false })
+        .toBuffer();
+    default:
+      return canvas.toBuffer("image/png");
+  }
 }
 
 function registerAllFonts(appcfg: AppConfig) {
     Object.values(appcfg.fonts).forEach(f => {
-        const absPath = path.isAbsolute(f.path)
-            ? f.path
-            : path.resolve(PROJECT_ROOT, f.path);
+        const absPath = resolveFontPath(f);
+            if (f.optional && !fssync.existsSync(absPath)) return;
 
             try {
                 registerFont(absPath, { family: f.family });
@@ -355,7 +556,7 @@ function registerAllFonts(appcfg: AppConfig) {
     });
 }
 
-function chooseAssets(pool: string[], n: number, preferDistinct = true): string[] {
+function chooseAssets(pool: string[], n: number, rand: Random, preferDistinct = true): string[] {
   if (n <= 0 || pool.length === 0) return [];
   if (!preferDistinct) {
     const out: string[] = [];
@@ -364,7 +565,7 @@ function chooseAssets(pool: string[], n: number, preferDistinct = true): string[
   }
   const shuffled = pool.slice();
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rand() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   const k = Math.min(n, shuffled.length);
@@ -373,10 +574,61 @@ function chooseAssets(pool: string[], n: number, preferDistinct = true): string[
   return out;
 }
 
-function randBetween(a: number, b: number) {
+function randBetween(rand: Random, a: number, b: number) {
   const lo = Math.min(a, b);
   const hi = Math.max(a, b);
-  return lo + Math.random() * (hi - lo);
+  return lo + rand() * (hi - lo);
+}
+
+function overlapArea(a: Rect, b: Rect) {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+function inflate(r: Rect, margin: number): Rect {
+  return { x: r.x - margin, y: r.y - margin, width: r.width + margin * 2, height: r.height + margin * 2 };
+}
+
+/** 绕中心旋转后的外接矩形 */
+function rotatedBounds(cx: number, cy: number, w: number, h: number, rad: number): Rect {
+  const bw = Math.abs(w * Math.cos(rad)) + Math.abs(h * Math.sin(rad));
+  const bh = Math.abs(w * Math.sin(rad)) + Math.abs(h * Math.cos(rad));
+  return { x: cx - bw / 2, y: cy - bh / 2, width: bw, height: bh };
+}
+
+const PLACEMENT_TRIES = 60;
+const PLACEMENT_SHRINK = [1, 0.8, 0.6];
+
+/**
+ * 在避让区域之外随机找位置：放不下时逐步缩小贴纸；仍放不下则取与避让区域重叠最少的位置。
+ * 返回贴纸中心点与最终尺寸。
+ */
+function findFreeSpot(
+  w: number,
+  h: number,
+  rad: number,
+  canvasW: number,
+  canvasH: number,
+  obstacles: Rect[],
+  margin: number,
+  rand: Random
+) {
+  let best: { cx: number; cy: number; w: number; h: number; overlap: number } | undefined;
+  for (const shrink of PLACEMENT_SHRINK) {
+    const sw = w * shrink;
+    const sh = h * shrink;
+    const ext = rotatedBounds(0, 0, sw, sh, rad);
+    for (let k = 0; k < PLACEMENT_TRIES; k++) {
+      const cx = randBetween(rand, ext.width / 2, Math.max(ext.width / 2, canvasW - ext.width / 2));
+      const cy = randBetween(rand, ext.height / 2, Math.max(ext.height / 2, canvasH - ext.height / 2));
+      const box = inflate(rotatedBounds(cx, cy, sw, sh, rad), margin);
+      const overlap = obstacles.reduce((sum, o) => sum + overlapArea(box, o), 0);
+      if (!best || overlap < best.overlap) best = { cx, cy, w: sw, h: sh, overlap };
+      if (overlap === 0) return best;
+    }
+  }
+  return best!;
 }
 
 async function drawOverlays(
@@ -384,18 +636,25 @@ async function drawOverlays(
   canvasW: number,
   canvasH: number,
   layers: OverlayConfig[] | undefined,
-  assetsPool: string[]
+  assetsPool: string[],
+  rand: Random,
+  textRects: Rect[] = []
 ) {
   if (!layers || layers.length === 0) return;
 
+  // 已放置的贴纸也加入避让区域，后续贴纸不与之重叠
+  const placed: Rect[] = [];
+
   for (const layer of layers) {
     if (!layer?.enable) continue;
 
     const count = Math.max(0, Math.floor(layer.count ?? 0));
     if (count === 0) continue;
 
+    const margin = layer.margin ?? 0;
+    const fixed = [...(layer.avoidText === false ? [] : textRects), ...(layer.keepOut ?? [])];
 
-    const chosenAssets = chooseAssets(assetsPool, count, /*preferDistinct*/ true);
+    const chosenAssets = chooseAssets(assetsPool, count, rand, /*preferDistinct*/ true);
 
     for (let i = 0; i < count; i++) {
       const pos = (layer.positions && layer.positions[i]) ? layer.positions[i] as any : {};
@@ -411,32 +670,37 @@ async function drawOverlays(
 
       const img = await loadImage(assetPath);
 
-      const scale = (pos.scale ?? (layer.randomize ? randBetween(layer.scaleRange[0], layer.scaleRange[1]) : 1));
-      const rotDeg = (pos.rotation ?? (layer.randomize ? randBetween(layer.rotationRange[0], layer.rotationRange[1]) : 0));
-      const alpha = (pos.alpha ?? (layer.randomize ? randBetween(layer.alphaRange[0], layer.alphaRange[1]) : 1));
-
-      const w = img.width * scale;
-      const h = img.height * scale;
-
-      let x = pos.x;
-      let y = pos.y;
-      if (typeof x !== "number" || typeof y !== "number") {
-        if (layer.randomize) {
-          x = randBetween(0, Math.max(0, canvasW - w));
-          y = randBetween(0, Math.max(0, canvasH - h));
-        } else {
-          x = x ?? 0;
-          y = y ?? 0;
-        }
+      const scale = (pos.scale ?? (layer.randomize ? randBetween(rand, layer.scaleRange[0], layer.scaleRange[1]) : 1));
+      const rotDeg = (pos.rotation ?? (layer.randomize ? randBetween(rand, layer.rotationRange[0], layer.rotationRange[1]) : 0));
+      const alpha = (pos.alpha ?? (layer.randomize ? randBetween(rand, layer.alphaRange[0], layer.alphaRange[1]) : 1));
+      const rad = rotDeg * Math.PI / 180;
+
+      let w = img.width * scale;
+      let h = img.height * scale;
+
+      // 显式给出的 x/y 仍是贴纸未旋转时的左上角
+      let cx: number;
+      let cy: number;
+      if (typeof pos.x === "number" && typeof pos.y === "number") {
+        cx = pos.x + w / 2;
+        cy = pos.y + h / 2;
+      } else if (layer.randomize) {
+        const obstacles = layer.allowOverlap ? fixed : [...fixed, ...placed];
+        const spot = findFreeSpot(w, h, rad, canvasW, canvasH, obstacles, margin, rand);
+        ({ cx, cy, w, h } = spot);
+      } else {
+        cx = (pos.x ?? 0) + w / 2;
+        cy = (pos.y ?? 0) + h / 2;
       }
+      placed.push(rotatedBounds(cx, cy, w, h, rad));
 
       ctx.save();
       ctx.globalAlpha = alpha;
 
-      ctx.translate(x, y);
-      ctx.rotate(rotDeg * Math.PI / 180);
+      ctx.translate(cx, cy);
+      ctx.rotate(rad);
 
-      ctx.drawImage(img, 0, 0, w, h);
+      ctx.drawImage(img, -w / 2, -h / 2, w, h);
       ctx.restore();
     }
   }
@@ -461,114 +725,333 @@ function resolveOverlay(base: OverlayConfig[] | undefined, patch?: Partial<Overl
   return cloneOverlay(base, patch);
 }
 
+type PageBackground = Image | BackgroundConfig;
+
+interface TemplateImages {
+  dir: string;
+  coverBase: PageBackground;
+  textBase: PageBackground;
+  endingBase: PageBackground;
+  assets: string[];
+}
+
+/** 请求最终使用的配置。合并顺序：全局 config < 模板 manifest < 环境变量 < 请求 overrides，最后套用主题 */
+export async function resolveRenderConfig(request: RenderRequest): Promise<AppConfig> {
+  const templates = { ...config.templates, ...request.overrides?.templates };
+  const templateDir = templateDirOf(templates, request.templateName);
+  const manifest = await loadTemplateManifest(templateDir);
+  const config_env = applyEnvOverrides(manifest ? applyTemplateManifest(config, manifest, templateDir) : config);
+  const resolved = applyTheme(applyOverrides(config_env, request), request.theme);
+  const { quality } = resolved.output;
+  if (typeof quality !== "number" || !(quality >= 0 && quality <= 1)) {
+    throw new Error(`output.quality must be between 0 and 1, got ${quality}`);
+  }
+  return resolved;
+}
+
 export async function renderAll(request: RenderRequest): Promise<RenderResult> {
-  const config_env = applyEnvOverrides(config);
-  const appcfg = applyOverrides(config_env, request);
+  const appcfg = await resolveRenderConfig(request);
   registerAllFonts(appcfg);
 
-  const { coverPath, textPath, endingPath, assets } =
-    await loadTemplateImages(appcfg.templates, request.templateName);
+  const template: TemplateImages = await loadTemplateImages(appcfg.templates, appcfg.backgrounds, request.templateName);
 
   const outputBase = path.isAbsolute(appcfg.output.directory)
   ? appcfg.output.directory
   : path.resolve(PROJECT_ROOT, appcfg.output.directory);
 
-  const outDir = path.join(outputBase, request.titleDir);
+  // titleDir 可能来自 front matter，不允许写到输出目录之外
+  const outDir = request.titleDir ? resolveSafePath(outputBase, request.titleDir) : outputBase;
+  const seed = request.seed !== undefined ? normalizeSeed(request.seed) : randomSeed();
+
+  if (!request.sizes || request.sizes.length === 0) {
+    return renderVariant(appcfg, request, template, outDir, seed);
+  }
+
+  const presets = request.sizes.map(name => {
+    const preset = appcfg.sizes[name];
+    if (!preset) throw new Error(`Unknown size preset: ${name}`);
+    return { name, preset };
+  });
+  const warnings: string[] = [];
+  const sizes: SizeRenderResult[] = [];
+  for (const { name, preset } of presets) {
+    const result = await renderVariant(
+      applySizePreset(appcfg, preset), request, template, resolveSafePath(outDir, name), seed);
+    warnings.push(...result.warnings.map(w => `[${name}] ${w}`));
+    sizes.push({
+      name,
+      width: preset.width,
+      height: preset.height,
+      cover: result.cover,
+      texts: result.texts,
+      ending: result.ending,
+      outputDir: result.outputDir,
+      outputs: result.outputs,
+      seeds: result.seeds,
+    });
+  }
+  const first = sizes[0];
+  return {
+    cover: first.cover,
+    texts: first.texts,
+    ending: first.ending,
+    outputDir: outDir,
+    outputs: first.outputs,
+    warnings,
+    seed,
+    seeds: first.seeds,
+    sizes,
+  };
+}
+
+/** 渲染 Markdown 转换后的请求，转换中的提示并入渲染结果的 warnings */
+export async function renderMarkdown({ request, warnings }: MarkdownImport): Promise<RenderResult> {
+  const result = await renderAll(request);
+  result.warnings.unshift(...warnings.map(w => `markdown: ${w}`));
+  return result;
+}
+
+/** 展开后的一页：续排的文字元素已经分好块，其余文字在绘制时排版（占位符需要总页数） */
+interface PageInstance {
+  spec: PageSpec;
+  name: string;
+  flow?: { element: TextElement; block: TextBlock };
+}
+
+/** 文字元素的排版：插图在前、文字在后；返回未按 maxLines 截断的全部行 */
+async function layoutTextElement(
+  ctx: CanvasRenderingContext2D,
+  el: TextElement,
+  text: string,
+  appcfg: AppConfig,
+  images: Pick<RichBlockStyle, "emojiImages" | "images">,
+  warnings: string[],
+  label: string
+): Promise<TextBlock> {
+  const base = toRichStyle(el, appcfg, TEXT_DEFAULTS, images);
+  const blockWarnings: string[] = [];
+  const figures = await resolvePageFigures(el.figures, images.images ?? new Map(), blockWarnings);
+  const style = el.fit ? fitRichBlock(ctx, text, base, el.fit, figures) : base;
+  const lines = [
+    ...figures.map(f => layoutFigure(f, style)),
+    ...(text ? layoutRichText(ctx, text, style, blockWarnings) : []),
+  ];
+  warnings.push(...blockWarnings.map(w => `${label}: ${w}`));
+  return { style, lines };
+}
+
+function elementLabel(spec: PageSpec, el: PageElement, index: number) {
+  return el.id ?? `${spec.name ?? spec.kind}.elements[${index}]`;
+}
+
+/** 图片元素优先取请求 images 中的同名图片，否则读取模板目录内的文件 */
+async function loadElementImage(src: string, figures: Map<string, FigureSource>, templateDir: string) {
+  const fig = figures.get(src);
+  if (fig) return fig.image;
+  return loadImage(resolveSafePath(templateDir, src));
+}
+
+async function renderVariant(
+  appcfg: AppConfig,
+  request: RenderRequest,
+  template: TemplateImages,
+  outDir: string,
+  seed: number
+): Promise<RenderResult> {
   ensureDirSync(outDir);
+  const assets = template.assets;
 
-  const coverBase = await loadImage(coverPath);
-  const textBase  = await loadImage(textPath);
-  const endingBase= await loadImage(endingPath);
+  const ext = outputExtension(appcfg.output.format);
+  const writeImage = async (canvas: Canvas, name: string) => {
+    const out = path.join(outDir, `${name}.${ext}`);
+    await fs.writeFile(out, await encodeCanvas(canvas, appcfg.output));
+    return out;
+  };
 
   const W = appcfg.image.width;
   const H = appcfg.image.height;
+  const warnings: string[] = [];
 
-  //title
-  {
-    const canvas = createCanvas(W, H);
-    const ctx = canvas.getContext("2d");
-
-    ctx.drawImage(coverBase, 0, 0, W, H);
-
-    const layers = resolveOverlay(appcfg.overlay, request.overlayCover);
-    await drawOverlays(ctx, W, H, layers, assets);
-
-    const titleTexts = appcfg.title;
-    for (let i = 0;  i < titleTexts.length; i++) {
-      const t = appcfg.title[i];
-      if (!t) continue;
-      const lineHeight = t.lineHeight ?? Math.round((t.fontSize ?? 36) * 1.4);
-      drawRichBlock(ctx, t.text || "", {
-        x: t.x,
-        y: t.y,
-        fontFamily: t.fontFamily,
-        fontSize: t.fontSize ?? 36,
-        lineHeight,
-        textAlign: t.textAlign,
-        color: t.color ?? "#000000",
-        maxLines: 1,
-        charsPerLine: t.charsPerLine ?? 20,
-        width: t.width,
-      });
+  const specs = structuredClone(appcfg.layout ?? defaultLayout(appcfg, request));
+  for (const spec of specs) {
+    for (const el of spec.elements) {
+      if (el.type === "text" && el.id && request.texts?.[el.id] !== undefined) el.text = String(request.texts[el.id]);
     }
-
-    const coverOut = path.join(outDir, "cover.png");
-    await fs.writeFile(coverOut, canvas.toBuffer("image/png"));
   }
+  const textElements = specs.flatMap(spec => spec.elements.filter((el): el is TextElement => el.type === "text"));
+
+  const emojiImages = await loadEmojiSprites(
+    [...textElements, ...appcfg.header, ...appcfg.footer].map(t => t.text ?? ""),
+    appcfg.emoji);
+  const figures = await loadFigures(request.images, warnings);
+  const images = { emojiImages, images: figures };
+  const photo = request.photo && await loadPhoto(request.photo, request.images, W, H, warnings);
+  // 模板底图是否有透明区域，按页面类型缓存
+  const framable = new Map<PageKind, boolean>();
+  const frameOf = async (kind: PageKind) => {
+    if (!framable.has(kind)) {
+      const file = path.join(template.dir, `${kind}.png`);
+      framable.set(kind, await hasTransparency(file).catch((e: Error) => {
+        warnings.push(`photo: ${kind}.png: ${e.message}`);
+        return false;
+      }));
+    }
+    return framable.get(kind)!;
+  };
 
-  //text
-  const textOutputs: string[] = [];
+  // 先展开续排的页面，得到总页数后再绘制（页眉页脚需要 {total}）；正文页总数受 maxPages 限制
+  const instances: PageInstance[] = [];
   {
-    const pages = appcfg.pages;
-    const pageCount = Math.max(1, Math.min(pages.length || 1, 6));
-    for (let p = 0; p < pageCount; p++) {
-      const ps = appcfg.pages[p];
-      if (!ps.text) continue;
-      const canvas = createCanvas(W, H);
-      const ctx = canvas.getContext("2d");
-      ctx.drawImage(textBase, 0, 0, W, H);
-      const pageOver = request.overlayPages?.[p];
-      const layers = resolveOverlay(appcfg.overlay, pageOver);
-      await drawOverlays(ctx, W, H, layers, assets);
-
-      const lineHeight = ps.lineHeight ?? Math.round((ps.fontSize ?? 32) * 1.4);
-      drawRichBlock(ctx, ps.text, {
-        x: ps.x,
-        y: ps.y,
-        fontFamily: ps.fontFamily,
-        fontSize: ps.fontSize ?? 32,
-        lineHeight,
-        textAlign: ps.textAlign,
-        color: ps.color ?? "#000000",
-        maxLines: ps.maxLines,
-        charsPerLine: ps.charsPerLine ?? 24,
-        width: ps.width,
-      });
+    const measureCtx = createCanvas(W, H).getContext("2d");
+    const maxPages = Math.max(1, appcfg.pagination.maxPages);
+    const used = new Set<string>();
+    const counters: Record<PageKind, number> = { cover: 0, text: 0, ending: 0 };
+    const nextName = (spec: PageSpec, part: number) => {
+      const n = ++counters[spec.kind];
+      let name = spec.name
+        ? (part === 0 ? spec.name : `${spec.name}_${part + 1}`)
+        : spec.kind === "text" ? `text_${n}` : n === 1 ? spec.kind : `${spec.kind}_${n}`;
+      for (let k = 2; used.has(name); k++) name = `${spec.name ?? spec.kind}_${k}`;
+      used.add(name);
+      return name;
+    };
 
-      const out = path.join(outDir, `text_${p + 1}.png`);
-      await fs.writeFile(out, canvas.toBuffer("image/png"));
-      textOutputs.push(out);
+    for (const spec of specs) {
+      if (spec.kind === "text" && counters.text >= maxPages) continue;
+      const index = spec.elements.findIndex(el => el.type === "text" && el.overflow === "paginate");
+      if (index < 0) {
+        instances.push({ spec, name: nextName(spec, 0) });
+        continue;
+      }
+      const element = spec.elements[index] as TextElement;
+      const block = await layoutTextElement(
+        measureCtx, element, element.text ?? "", appcfg, images, warnings, elementLabel(spec, element, index));
+      const chunks = paginateLines(block.lines, block.style);
+      for (const [part, lines] of (chunks.length ? chunks : [[]]).entries()) {
+        if (spec.kind === "text" && counters.text >= maxPages) break;
+        instances.push({ spec, name: nextName(spec, part), flow: { element, block: { style: block.style, lines } } });
+      }
     }
   }
 
-  //ending
-  {
+  const total = instances.length;
+  const pickSeed = (own: Seed | undefined, label: string) =>
+    own !== undefined ? normalizeSeed(own) : deriveSeed(seed, label);
+  const textIndex = new Map(instances.filter(p => p.spec.kind === "text").map((p, i) => [p, i]));
+  const firstOf = (kind: PageKind) => instances.find(p => p.spec.kind === kind);
+  const pageSeed = (p: PageInstance) => {
+    if (p.spec.kind === "text") return pickSeed(request.pageSeeds?.pages?.[textIndex.get(p)!], p.name);
+    return pickSeed(p === firstOf(p.spec.kind) ? request.pageSeeds?.[p.spec.kind] : undefined, p.name);
+  };
+  const overlayPatch = (p: PageInstance) =>
+    p.spec.kind === "cover" ? request.overlayCover
+      : p.spec.kind === "ending" ? request.overlayEnding
+        : request.overlayPages?.[textIndex.get(p)!];
+
+  const title = appcfg.title.map(t => plainText(t.text ?? "")).join("");
+  const date = formatDate(new Date());
+
+  const outputs: RenderedPage[] = [];
+  for (const [n, instance] of instances.entries()) {
+    const { spec } = instance;
     const canvas = createCanvas(W, H);
     const ctx = canvas.getContext("2d");
-    ctx.drawImage(endingBase, 0, 0, W, H);
+    const seedOf = pageSeed(instance);
+    const page: PageContext = { kind: spec.kind, page: n + 1, total, title, handle: appcfg.account.handle, date };
+
+    // 先排版文字并确定图片、二维码位置，贴纸据此避让
+    const blocks = new Map<PageElement, TextBlock>();
+    const obstacles: Rect[] = [];
+    const drawn = new Map<PageElement, Image>();
+    for (const [i, el] of spec.elements.entries()) {
+      const label = elementLabel(spec, el, i);
+      if (el.type === "text") {
+        if (instance.flow?.element === el) {
+          blocks.set(el, instance.flow.block);
+        } else {
+          const text = el.tokens ? fillPageTokens(el.text ?? "", page, el.enableInlineMarkup !== false) : el.text ?? "";
+          const block = await layoutTextElement(ctx, el, text, appcfg, images, warnings, label);
+          blocks.set(el, { style: block.style, lines: clipLines(block.lines, block.style) });
+        }
+        obstacles.push(...blockRects([blocks.get(el)!]));
+      } else if (el.type === "qrcode") {
+        obstacles.push({ x: el.x, y: el.y, width: el.size, height: el.size });
+      } else if (el.type === "image") {
+        try {
+          drawn.set(el, await loadElementImage(el.src, figures, template.dir));
+          obstacles.push({ x: el.x, y: el.y, width: el.width, height: el.height });
+        } catch (e) {
+          warnings.push(`${label}: ${(e as Error).message}`);
+        }
+      }
+    }
+    const marks = layoutPageMarks(ctx, appcfg, page, emojiImages, warnings);
+    obstacles.push(...blockRects(marks));
+
+    // 背景在排版之后绘制：照片的自动遮罩需要知道文字的位置
+    const bg = spec.background ?? spec.kind;
+    const base = isBackgroundConfig(bg) ? bg : template[`${bg}Base`];
+    if (!base) throw new Error(`Unknown page background: ${String(bg)} (expected cover, text, ending or a background config)`);
+    if (photo && request.photo && showOnPage(request.photo.pages ?? ["cover"], spec.kind)) {
+      ctx.drawImage(photo, 0, 0, W, H);
+      drawPhotoOverlay(ctx, request.photo, W, H, blockRects([...blocks.values()]), currentTheme(appcfg));
+      if (request.photo.frame !== false && typeof bg === "string" && !isBackgroundConfig(base) && await frameOf(bg)) {
+        drawBackground(ctx, base, W, H, seedOf);
+      }
+    } else {
+      drawBackground(ctx, base, W, H, seedOf);
+    }
 
-    const layers = resolveOverlay(appcfg.overlay, request.overlayEnding);
-    await drawOverlays(ctx, W, H, layers, assets);
+    const ordered = spec.elements
+      .map((el, i) => ({ el, i }))
+      .sort((a, b) => (a.el.z ?? a.i) - (b.el.z ?? b.i) || a.i - b.i);
+    for (const { el, i } of ordered) {
+      switch (el.type) {
+        case "overlay":
+          await drawOverlays(ctx, W, H, resolveOverlay(appcfg.overlay, el.layers ?? overlayPatch(instance)),
+            assets, createRandom(seedOf), obstacles);
+          break;
+        case "text": {
+          const block = blocks.get(el)!;
+          drawLayoutLines(ctx, block.lines, block.style);
+          break;
+        }
+        case "image": {
+          const img = drawn.get(el);
+          if (img) drawImageElement(ctx, img, el);
+          break;
+        }
+        case "shape":
+          drawShape(ctx, el);
+          break;
+        case "qrcode":
+          try {
+            drawQRCode(ctx, el.text, el);
+          } catch (e) {
+            warnings.push(`${elementLabel(spec, el, i)}: ${(e as Error).message}`);
+          }
+          break;
+      }
+    }
 
-    const endingOut = path.join(outDir, "ending.png");
-    await fs.writeFile(endingOut, canvas.toBuffer("image/png"));
+    drawPageMarks(ctx, appcfg, page, marks);
+    outputs.push({ name: instance.name, kind: spec.kind, file: await writeImage(canvas, instance.name), seed: seedOf });
   }
 
+  const textOutputs = outputs.filter(o => o.kind === "text");
+  const fileOf = (kind: PageKind) => outputs.find(o => o.kind === kind);
   return {
-    cover: path.join(outDir, "cover.png"),
-    texts: textOutputs,
-    ending: path.join(outDir, "ending.png"),
+    cover: fileOf("cover")?.file ?? "",
+    texts: textOutputs.map(o => o.file),
+    ending: fileOf("ending")?.file ?? "",
     outputDir: outDir,
+    outputs,
+    warnings,
+    seed,
+    seeds: {
+      cover: fileOf("cover")?.seed ?? pickSeed(request.pageSeeds?.cover, "cover"),
+      pages: textOutputs.map(o => o.seed),
+      ending: fileOf("ending")?.seed ?? pickSeed(request.pageSeeds?.ending, "ending"),
+    },
   };
 }
-
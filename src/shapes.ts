@@ -0,0 +1,150 @@
+// shapes.ts
+import type { CanvasRenderingContext2D, Image } from "canvas";
+import type { ImageElement, ShapeElement } from "./config";
+import { fontString, roundRectPath } from "./layout";
+
+/** 对话框：圆角矩形的一条边上伸出尖角指向 tail，尖角所在边由 tail 相对矩形的位置决定 */
+function calloutPath(ctx: CanvasRenderingContext2D, el: ShapeElement) {
+  const { x, y, width: w, height: h, tail } = el;
+  const r = Math.max(0, Math.min(el.radius ?? 0, w / 2, h / 2));
+  const edge = !tail ? undefined
+    : tail.y > y + h ? "bottom" : tail.y < y ? "top" : tail.x < x ? "left" : tail.x > x + w ? "right" : undefined;
+  const half = (tail?.width ?? Math.min(w, h) * 0.25) / 2;
+  // 尖角底边的中心沿边滑动，但不进入圆角
+  const along = (pos: number, lo: number, hi: number) => Math.max(lo + r + half, Math.min(hi - r - half, pos));
+
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  if (tail && edge === "top") {
+    const c = along(tail.x, x, x + w);
+    ctx.lineTo(c - half, y);
+    ctx.lineTo(tail.x, tail.y);
+    ctx.lineTo(c + half, y);
+  }
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  if (tail && edge === "right") {
+    const c = along(tail.y, y, y + h);
+    ctx.lineTo(x + w, c - half);
+    ctx.lineTo(tail.x, tail.y);
+    ctx.lineTo(x + w, c + half);
+  }
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  if (tail && edge === "bottom") {
+    const c = along(tail.x, x, x + w);
+    ctx.lineTo(c + half, y + h);
+    ctx.lineTo(tail.x, tail.y);
+    ctx.lineTo(c - half, y + h);
+  }
+  ctx.arcTo(x, y + h, x, y, r);
+  if (tail && edge === "left") {
+    const c = along(tail.y, y, y + h);
+    ctx.lineTo(x, c + half);
+    ctx.lineTo(tail.x, tail.y);
+    ctx.lineTo(x, c - half);
+  }
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+function ellipsePath(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) {
+  ctx.beginPath();
+  ctx.ellipse(x + w / 2, y + h / 2, Math.abs(w / 2), Math.abs(h / 2), 0, 0, Math.PI * 2);
+}
+
+function lineEnd(el: ShapeElement) {
+  return { x: el.x2 ?? el.x + el.width, y: el.y2 ?? el.y + el.height };
+}
+
+function fillAndStroke(ctx: CanvasRenderingContext2D, el: ShapeElement) {
+  if (el.fill) {
+    ctx.fillStyle = el.fill;
+    ctx.fill();
+  }
+  if (el.stroke && (el.strokeWidth ?? 1) > 0) {
+    ctx.strokeStyle = el.stroke;
+    ctx.lineWidth = el.strokeWidth ?? 1;
+    ctx.setLineDash(el.dash ?? []);
+    ctx.stroke();
+  }
+}
+
+export function drawShape(ctx: CanvasRenderingContext2D, el: ShapeElement) {
+  ctx.save();
+  ctx.globalAlpha = el.opacity ?? 1;
+  switch (el.shape) {
+    case "rect":
+      roundRectPath(ctx, el.x, el.y, el.width, el.height, el.radius ?? 0);
+      fillAndStroke(ctx, el);
+      break;
+    case "circle":
+      ellipsePath(ctx, el.x, el.y, el.width, el.height);
+      fillAndStroke(ctx, el);
+      break;
+    case "callout":
+      calloutPath(ctx, el);
+      fillAndStroke(ctx, el);
+      break;
+    case "line":
+    case "arrow": {
+      const end = lineEnd(el);
+      const lineWidth = el.strokeWidth ?? 2;
+      const color = el.stroke ?? el.fill ?? "#000000";
+      const angle = Math.atan2(end.y - el.y, end.x - el.x);
+      const head = el.shape === "arrow" ? el.headSize ?? Math.max(12, lineWidth * 4) : 0;
+      // 箭头的线段停在箭头底部，避免粗线从尖端露出
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.lineCap = el.dash?.length ? "butt" : "round";
+      ctx.setLineDash(el.dash ?? []);
+      ctx.beginPath();
+      ctx.moveTo(el.x, el.y);
+      ctx.lineTo(end.x - Math.cos(angle) * head * 0.8, end.y - Math.sin(angle) * head * 0.8);
+      ctx.stroke();
+      if (head > 0) {
+        const spread = Math.PI / 7;
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(end.x, end.y);
+        ctx.lineTo(end.x - Math.cos(angle - spread) * head, end.y - Math.sin(angle - spread) * head);
+        ctx.lineTo(end.x - Math.cos(angle + spread) * head, end.y - Math.sin(angle + spread) * head);
+        ctx.closePath();
+        ctx.fill();
+      }
+      break;
+    }
+    case "badge": {
+      ellipsePath(ctx, el.x, el.y, el.width, el.height);
+      fillAndStroke(ctx, { ...el, fill: el.fill ?? "#ff4d4f" });
+      if (el.text) {
+        const size = el.fontSize ?? Math.round(Math.min(el.width, el.height) * 0.55);
+        ctx.font = fontString(size, el.fontFamily ?? "sans-serif", { bold: true });
+        ctx.fillStyle = el.color ?? "#ffffff";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(el.text, el.x + el.width / 2, el.y + el.height / 2);
+      }
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+/** 图片元素：cover 裁切铺满、contain 完整放入（居中）、fill 拉伸，圆角裁切 */
+export function drawImageElement(ctx: CanvasRenderingContext2D, img: Image, el: ImageElement) {
+  const fit = el.fit ?? "cover";
+  let w = el.width, h = el.height;
+  if (fit !== "fill") {
+    const scale = (fit === "cover" ? Math.max : Math.min)(el.width / img.width, el.height / img.height);
+    w = img.width * scale;
+    h = img.height * scale;
+  }
+  const x = el.x + (el.width - w) / 2;
+  const y = el.y + (el.height - h) / 2;
+
+  ctx.save();
+  ctx.globalAlpha = el.opacity ?? 1;
+  roundRectPath(ctx, el.x, el.y, el.width, el.height, el.radius ?? 0);
+  ctx.clip();
+  ctx.drawImage(img, x, y, w, h);
+  ctx.restore();
+}
@@ -0,0 +1,268 @@
+// templates.ts
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import AdmZip from "adm-zip";
+import config, { type BackgroundsConfig, type PageKind } from "./config";
+import { MANIFEST_FILES, applyTemplateManifest, loadTemplateManifest } from "./manifest";
+import { TEMPLATE_DIR, resolveSafePath, rimraf } from "./utils";
+
+/** 模板管理中可预期的错误（名称非法、文件缺失、尺寸不符等），status 为对应的 HTTP 状态码 */
+export class TemplateError extends Error {
+  constructor(message: string, public status = 400, public details: string[] = []) {
+    super(message);
+  }
+}
+
+/** multer 上传文件中用到的字段 */
+export interface UploadedFile {
+  fieldname: string;
+  originalname: string;
+  buffer: Buffer;
+}
+
+export const REQUIRED_IMAGES = ["cover.png", "text.png", "ending.png"];
+
+const NAME_RE = /^[\w\u4e00-\u9fa5][\w.\-\u4e00-\u9fa5]{0,63}$/;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const ZIP_MAX_BYTES = 200 * 1024 * 1024;
+// 比例误差在 1% 以内视为一致
+const ASPECT_TOLERANCE = 0.01;
+
+/** 某页声明的生成背景：单页声明优先于 default */
+export function declaredBackground(backgrounds: BackgroundsConfig | undefined, page: PageKind) {
+  return backgrounds?.[page] ?? backgrounds?.default;
+}
+
+/** 从 PNG 的 IHDR 读取宽高，不是 PNG 时返回 null */
+export function pngSize(buf: Buffer): { width: number; height: number } | null {
+  if (buf.length < 24 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+}
+
+export function templatePath(name: string) {
+  if (!NAME_RE.test(name)) {
+    throw new TemplateError(`Invalid template name: ${name}`);
+  }
+  return resolveSafePath(TEMPLATE_DIR, name);
+}
+
+/** 模板目录内允许出现的相对路径：三张底图、manifest、assets/*.png 与 fonts/* */
+function allowedEntry(rel: string) {
+  const norm = rel.split(path.sep).join("/");
+  if (REQUIRED_IMAGES.includes(norm) || MANIFEST_FILES.includes(norm)) return true;
+  if (/^assets\/[^/]+\.png$/i.test(norm)) return true;
+  return /^fonts\/[^/]+\.(ttf|otf|ttc)$/i.test(norm);
+}
+
+/** 上传字段到模板内路径：cover/text/ending 为底图，assets 为贴纸，fonts 为字体，manifest 为 template.yaml/json */
+function uploadTarget(file: UploadedFile): string | null {
+  const base = path.basename(file.originalname);
+  switch (file.fieldname) {
+    case "cover":
+    case "text":
+    case "ending":
+      return `${file.fieldname}.png`;
+    case "assets":
+      return `assets/${base}`;
+    case "fonts":
+      return `fonts/${base}`;
+    case "manifest":
+      return MANIFEST_FILES.includes(base) ? base : path.extname(base) === ".json" ? "template.json" : "template.yaml";
+    default:
+      return null;
+  }
+}
+
+async function writeEntry(dir: string, rel: string, data: Buffer) {
+  if (!allowedEntry(rel)) throw new TemplateError(`File not allowed in template: ${rel}`);
+  const abs = resolveSafePath(dir, rel);
+  await fs.mkdir(path.dirname(abs), { recursive: true });
+  // manifest 只保留一份，避免 yaml 与 json 同时存在时取错
+  if (MANIFEST_FILES.includes(rel)) {
+    await Promise.all(MANIFEST_FILES.map(m => fs.rm(path.join(dir, m), { force: true })));
+  }
+  await fs.writeFile(abs, data);
+}
+
+async function writeUploads(dir: string, files: UploadedFile[]) {
+  for (const file of files) {
+    const rel = uploadTarget(file);
+    if (!rel) throw new TemplateError(`Unknown upload field: ${file.fieldname}`);
+    await writeEntry(dir, rel, file.buffer);
+  }
+}
+
+/** 解压模板 zip；zip 内只有一个顶层目录时（直接压缩文件夹的情况）去掉这一层 */
+export async function extractZip(dir: string, zipBuffer: Buffer, maxBytes = ZIP_MAX_BYTES) {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(zipBuffer);
+  } catch (e) {
+    throw new TemplateError(`Invalid zip: ${(e as Error).message}`);
+  }
+  const entries = zip.getEntries().filter(e =>
+    !e.isDirectory && !e.entryName.startsWith("__MACOSX/") && path.basename(e.entryName) !== ".DS_Store");
+
+  // 先按头部声明的大小快速拒绝；头部可以伪造，解压时再按实际数据累计
+  const declared = entries.reduce((sum, e) => sum + e.header.size, 0);
+  if (declared > maxBytes) throw new TemplateError("Zip is too large when extracted");
+
+  const tops = new Set(entries.map(e => e.entryName.split("/")[0]));
+  const strip = tops.size === 1 && entries.every(e => e.entryName.includes("/")) ? `${[...tops][0]}/` : "";
+
+  let extracted = 0;
+  for (const entry of entries) {
+    const rel = entry.entryName.slice(strip.length);
+    if (!allowedEntry(rel)) continue;
+    let data: Buffer;
+    try {
+      data = entry.getData();
+    } catch (e) {
+      // 数据与头部不符（损坏或伪造）时 adm-zip 会抛错
+      throw new TemplateError(`Invalid zip entry ${entry.entryName}: ${(e as Error).message}`);
+    }
+    extracted += data.length;
+    if (extracted > maxBytes) throw new TemplateError("Zip is too large when extracted");
+    await writeEntry(dir, rel, data);
+  }
+}
+
+/** 检查必需底图（manifest 声明了生成背景的页面可以缺省）、PNG 格式以及三张底图尺寸一致且与目标画布比例相同 */
+export async function validateTemplateDir(dir: string): Promise<string[]> {
+  const errors: string[] = [];
+  const sizes: { file: string; width: number; height: number }[] = [];
+
+  let target = config.image;
+  let backgrounds: BackgroundsConfig = config.backgrounds;
+  try {
+    const manifest = await loadTemplateManifest(dir);
+    // 合并一次以检查 manifest 中的字体路径
+    if (manifest) applyTemplateManifest(config, manifest, dir);
+    if (manifest?.image) target = { ...target, ...manifest.image };
+    if (manifest?.backgrounds) backgrounds = { ...backgrounds, ...manifest.backgrounds };
+  } catch (e) {
+    errors.push((e as Error).message);
+  }
+
+  for (const file of REQUIRED_IMAGES) {
+    const abs = path.join(dir, file);
+    if (!fssync.existsSync(abs)) {
+      if (!declaredBackground(backgrounds, path.parse(file).name as PageKind)) errors.push(`Missing required file: ${file}`);
+      continue;
+    }
+    const size = pngSize(await fs.readFile(abs));
+    if (!size) errors.push(`${file} is not a valid PNG`);
+    else sizes.push({ file, ...size });
+  }
+
+  const assetsDir = path.join(dir, "assets");
+  if (fssync.existsSync(assetsDir)) {
+    // 贴纸只放在 assets 一层（与 allowedEntry 一致），子目录等非文件条目报为校验错误
+    for (const entry of await fs.readdir(assetsDir, { withFileTypes: true })) {
+      if (!entry.isFile()) errors.push(`assets/${entry.name} is not a file`);
+      else if (!pngSize(await fs.readFile(path.join(assetsDir, entry.name)))) errors.push(`assets/${entry.name} is not a valid PNG`);
+    }
+  }
+
+  const [first, ...rest] = sizes;
+  for (const s of rest) {
+    if (s.width !== first.width || s.height !== first.height) {
+      errors.push(`${s.file} is ${s.width}x${s.height}, but ${first.file} is ${first.width}x${first.height}`);
+    }
+  }
+  if (first) {
+    const expected = target.width / target.height;
+    if (Math.abs(first.width / first.height - expected) / expected > ASPECT_TOLERANCE) {
+      errors.push(`Template images are ${first.width}x${first.height}, expected the aspect ratio of ${target.width}x${target.height}`);
+    }
+  }
+  return errors;
+}
+
+/** 用 stageDir 替换 finalDir（不存在时直接改名）；换入失败时放回旧目录，避免新旧两份都丢失 */
+export async function swapDir(stageDir: string, finalDir: string) {
+  const trashDir = `${stageDir}.old`;
+  const replacing = fssync.existsSync(finalDir);
+  if (replacing) await fs.rename(finalDir, trashDir);
+  try {
+    await fs.rename(stageDir, finalDir);
+  } catch (e) {
+    if (replacing) await fs.rename(trashDir, finalDir);
+    throw e;
+  }
+  await rimraf(trashDir);
+}
+
+/**
+ * 在临时目录中准备好新内容并校验，通过后再替换正式目录；
+ * 校验失败或替换失败时正式目录保持不变。
+ */
+async function stageTemplate(name: string, prepare: (stageDir: string) => Promise<void>, seed?: string) {
+  const finalDir = templatePath(name);
+  const stageDir = path.join(TEMPLATE_DIR, `.staging-${randomUUID()}`);
+  try {
+    if (seed) await fs.cp(seed, stageDir, { recursive: true });
+    else await fs.mkdir(stageDir, { recursive: true });
+    await prepare(stageDir);
+
+    const errors = await validateTemplateDir(stageDir);
+    if (errors.length) throw new TemplateError("Template validation failed", 400, errors);
+
+    await swapDir(stageDir, finalDir);
+  } finally {
+    await rimraf(stageDir);
+  }
+  return finalDir;
+}
+
+function assertExists(name: string) {
+  const dir = templatePath(name);
+  if (!fssync.existsSync(dir)) throw new TemplateError(`Template not found: ${name}`, 404);
+  return dir;
+}
+
+function assertAbsent(name: string) {
+  const dir = templatePath(name);
+  if (fssync.existsSync(dir)) throw new TemplateError(`Template already exists: ${name}`, 409);
+  return dir;
+}
+
+/** 由上传文件创建模板；字段 zip 为整包上传，可与其他字段同时使用（其他字段覆盖 zip 中的同名文件） */
+export async function createTemplate(name: string, files: UploadedFile[]) {
+  assertAbsent(name);
+  return stageTemplate(name, async dir => {
+    const zip = files.find(f => f.fieldname === "zip");
+    if (zip) await extractZip(dir, zip.buffer);
+    await writeUploads(dir, files.filter(f => f.fieldname !== "zip"));
+  });
+}
+
+export async function cloneTemplate(from: string, to: string) {
+  const source = assertExists(from);
+  assertAbsent(to);
+  return stageTemplate(to, async () => {}, source);
+}
+
+/** 替换底图、贴纸、字体或 manifest；removeAssets 中列出的贴纸会被删除 */
+export async function updateTemplate(name: string, files: UploadedFile[], removeAssets: string[] = []) {
+  const current = assertExists(name);
+  return stageTemplate(name, async dir => {
+    for (const asset of removeAssets) {
+      await fs.rm(resolveSafePath(path.join(dir, "assets"), path.basename(asset)), { force: true });
+    }
+    const zip = files.find(f => f.fieldname === "zip");
+    if (zip) await extractZip(dir, zip.buffer);
+    await writeUploads(dir, files.filter(f => f.fieldname !== "zip"));
+  }, current);
+}
+
+export async function deleteTemplate(name: string) {
+  if (name === config.templates.defaultName) {
+    throw new TemplateError(`The default template cannot be deleted: ${name}`);
+  }
+  const dir = assertExists(name);
+  await rimraf(dir);
+  return dir;
+}
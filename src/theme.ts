@@ -0,0 +1,53 @@
+// theme.ts
+import type { AppConfig, ThemeColors } from "./config";
+
+export const THEME_ROLES: (keyof ThemeColors)[] = ["primary", "accent", "text", "muted", "background"];
+
+// 配置中存放颜色的字段（background 为二维码底色，fill/stroke 为图形，其余为列表与表格），colors 为颜色数组单独处理；
+// 页面描述（layout 中带 elements 的对象）的 background 是底图名或生成背景，不按颜色替换
+const COLOR_KEYS = new Set([
+  "color", "captionColor", "patternColor", "background", "fill", "stroke", "markerColor", "borderColor", "headerBackground",
+]);
+
+/** 颜色为主题角色名时换成主题中的颜色，其余原样返回 */
+export function resolveThemeColor<T extends string | undefined>(color: T, theme: ThemeColors | undefined): T {
+  if (!theme || color === undefined) return color;
+  const key = color.trim() as keyof ThemeColors;
+  return (THEME_ROLES.includes(key) ? theme[key] : color) as T;
+}
+
+function resolveColors(value: unknown, theme: ThemeColors): unknown {
+  if (Array.isArray(value)) return value.map(v => resolveColors(v, theme));
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    const pageSpec = Array.isArray((value as { elements?: unknown }).elements);
+    for (const [k, v] of Object.entries(value)) {
+      if (COLOR_KEYS.has(k) && typeof v === "string" && !(pageSpec && k === "background")) out[k] = resolveThemeColor(v, theme);
+      else if (k === "colors" && Array.isArray(v)) out[k] = v.map(c => typeof c === "string" ? resolveThemeColor(c, theme) : c);
+      else out[k] = resolveColors(v, theme);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** 选定主题后把配置中所有写成角色名的颜色换成具体颜色；themes 本身不做替换 */
+export function applyTheme(cfg: AppConfig, name?: string): AppConfig {
+  const themeName = name || cfg.theme;
+  const theme = cfg.themes[themeName];
+  if (!theme) throw new Error(`Unknown theme: ${themeName}`);
+
+  const { themes, fonts, ...rest } = cfg;
+  return { ...(resolveColors(rest, theme) as Omit<AppConfig, "themes" | "fonts">), themes, fonts, theme: themeName };
+}
+
+export function currentTheme(cfg: AppConfig): ThemeColors | undefined {
+  return cfg.themes[cfg.theme];
+}
+
+/** 按名称合并主题；新主题未给出的角色沿用 default 主题 */
+export function mergeThemes(target: Record<string, ThemeColors>, patches: Record<string, Partial<ThemeColors>> | undefined) {
+  for (const [name, partial] of Object.entries(patches ?? {})) {
+    target[name] = { ...(target[name] ?? target.default), ...partial };
+  }
+}
@@ -3,6 +3,7 @@ import * as fs from "node:fs/promises";
 import * as fssync from "node:fs";
 import * as path from "node:path";
 import type { Dirent } from "node:fs";
+import { findManifest, loadTemplateManifest, type TemplateManifest } from "./manifest";
 
 export const PROJECT_ROOT = path.resolve(__dirname, "../../");
 export const TEMPLATE_DIR = path.join(PROJECT_ROOT, "template");
@@ -20,6 +21,8 @@ export interface TemplateFiles {
   templateName: string;       // 模板名
   pngFiles: FileInfo[];       // 直接位于模板目录下的 *.png（cover.png / text.png / ending.png 等）
   assetFiles: FileInfo[];     // assets/*.png
+  manifestFile: FileInfo | null;       // template.yaml / template.json
+  manifest: TemplateManifest | null;   // 解析后的 manifest
 }
 
 export interface OutputList {
@@ -65,7 +68,7 @@ export async function rimraf(target: string): Promise<void> {
 export async function listTemplates(): Promise<string[]> {
   if (!fssync.existsSync(TEMPLATE_DIR)) return [];
   const entries = await fs.readdir(TEMPLATE_DIR, { withFileTypes: true });
-  return entries.filter(e => e.isDirectory()).map(e => e.name);
+  return entries.filter(e => e.isDirectory() && !e.name.startsWith(".")).map(e => e.name);
 }
 
 export async function listTemplateFiles(templateName: string): Promise<TemplateFiles> {
@@ -99,7 +102,11 @@ export async function listTemplateFiles(templateName: string): Promise<TemplateF
     }
   }
 
-  return { templateDir, templateName, pngFiles, assetFiles };
+  const manifestAbs = findManifest(templateDir);
+  const manifestFile = manifestAbs ? await toFileInfo(manifestAbs, templateDir, path.basename(manifestAbs)) : null;
+  const manifest = await loadTemplateManifest(templateDir);
+
+  return { templateDir, templateName, pngFiles, assetFiles, manifestFile, manifest };
 }
 
 export async function listOutputFiles(): Promise<OutputList> {
@@ -123,7 +130,7 @@ export async function listOutputFiles(): Promise<OutputList> {
   return { outputDir: OUTPUT_DIR, files };
 }
 
-export async function checkFonts(fontsConfig: Record<string, { path: string; family: string }>) {
+export async function checkFonts(fontsConfig: Record<string, { path: string; family: string; optional?: boolean }>) {
   const items = Object.entries(fontsConfig).map(([name, f]) => {
     const abs = path.isAbsolute(f.path) ? f.path : path.join(PROJECT_ROOT, f.path);
     const exists = fssync.existsSync(abs);
@@ -132,6 +139,7 @@ export async function checkFonts(fontsConfig: Record<string, { path: string; fam
       family: f.family,
       path: abs,
       exists,
+      optional: f.optional === true,
     };
   });
   return items;
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseBlocks, type ParagraphBlock } from "../src/blocks";
+import { classifyGlyph, splitGraphemes } from "../src/linebreak";
+import type { LayoutGlyph } from "../src/layout";
+
+function glyphs(text: string, color = "#000"): LayoutGlyph[] {
+  return splitGraphemes(text).map(t => ({
+    text: t, color, fontSize: 10, fontFamily: "sans-serif", width: 10, kind: classifyGlyph(t),
+  }));
+}
+
+const text = (gs: LayoutGlyph[]) => gs.map(g => g.text).join("");
+
+function parse(...paragraphs: string[]) {
+  return parseBlocks<never>(paragraphs.map(p => glyphs(p)));
+}
+
+function list(block: ParagraphBlock) {
+  assert.equal(block.type, "list");
+  return block;
+}
+
+test("bullets, numbers and checkboxes become list items", () => {
+  const blocks = parse("- 苹果", "2) 香蕉", "3、橙子", "- [ ] 待办", "[x] 已完成").map(list);
+  assert.deepEqual(blocks.map(b => [b.kind, b.label, b.checked, text(b.glyphs)]), [
+    ["bullet", "-", undefined, "苹果"],
+    ["number", "2)", undefined, "香蕉"],
+    ["number", "3、", undefined, "橙子"],
+    ["check", "-", false, "待办"],
+    ["check", "", true, "已完成"],
+  ]);
+});
+
+test("plain paragraphs and look-alikes stay text", () => {
+  assert.deepEqual(parse("普通文字", "-没有空格", "2024.1 不是编号").map(b => b.type), ["text", "text", "text"]);
+});
+
+test("indentation sets the level, capped at the third level", () => {
+  const blocks = parse("- a", "  - b", "\t- c", "    - d", "        - e").map(list);
+  assert.deepEqual(blocks.map(b => b.level), [0, 1, 1, 2, 2]);
+});
+
+test("the marker glyph keeps the style of the first marker character", () => {
+  const [block] = parseBlocks<never>([[...glyphs("  "), ...glyphs("- ", "#f00"), ...glyphs("重点")]]);
+  const item = list(block);
+  assert.equal(item.markerGlyph.color, "#f00");
+  assert.equal(text(item.glyphs), "重点");
+});
+
+test("consecutive rows form one table with header and alignment from the separator", () => {
+  const [table] = parse("| 名称 | 价格 | 备注 |", "|:---|---:|:-:|", "| 牙刷 | 9.9 | |");
+  assert.equal(table.type, "table");
+  if (table.type !== "table") return;
+  assert.equal(table.header, true);
+  assert.deepEqual(table.align, ["left", "right", "center"]);
+  assert.deepEqual(table.rows.map(r => r.map(text)), [["名称", "价格", "备注"], ["牙刷", "9.9", ""]]);
+});
+
+test("a table without a separator has no header, and later separators are dropped", () => {
+  const [table] = parse("| a | b |", "| c | d |", "|---|---|", "| e | f |");
+  assert.equal(table.type, "table");
+  if (table.type !== "table") return;
+  assert.equal(table.header, false);
+  assert.deepEqual(table.rows.map(r => r.map(text)), [["a", "b"], ["c", "d"], ["e", "f"]]);
+});
+
+test("non-paragraph items pass through and split tables", () => {
+  const figure = { type: "figure" as const };
+  const blocks = parseBlocks<typeof figure>([glyphs("| a |"), figure, glyphs("| b |"), glyphs("文字")]);
+  assert.deepEqual(blocks.map(b => b.type), ["table", "figure", "table", "text"]);
+});
@@ -0,0 +1,113 @@
+import { test, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { emojiSpriteFiles, emojiSpriteNames, fontChain, fontCoverage, pickFontFamily } from "../src/fonts";
+import type { FontDef } from "../src/config";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "fonts-test-"));
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+/** 只有 cmap 表的最小字体文件：format 4 写 BMP 区间，format 12 写任意区间 */
+function cmapFont(format: 4 | 12, ranges: [number, number][]) {
+  let sub: Buffer;
+  if (format === 4) {
+    const segs = [...ranges, [0xffff, 0xffff] as [number, number]];
+    sub = Buffer.alloc(16 + segs.length * 8);
+    sub.writeUInt16BE(4, 0);
+    sub.writeUInt16BE(sub.length, 2);
+    sub.writeUInt16BE(segs.length * 2, 6);
+    segs.forEach(([start, end], k) => {
+      sub.writeUInt16BE(end, 14 + k * 2);
+      sub.writeUInt16BE(start, 16 + segs.length * 2 + k * 2);
+    });
+  } else {
+    sub = Buffer.alloc(16 + ranges.length * 12);
+    sub.writeUInt16BE(12, 0);
+    sub.writeUInt32BE(sub.length, 4);
+    sub.writeUInt32BE(ranges.length, 12);
+    ranges.forEach(([start, end], g) => {
+      sub.writeUInt32BE(start, 16 + g * 12);
+      sub.writeUInt32BE(end, 20 + g * 12);
+    });
+  }
+  const cmap = Buffer.alloc(12);
+  cmap.writeUInt16BE(1, 2);
+  cmap.writeUInt16BE(3, 4);
+  cmap.writeUInt16BE(format === 4 ? 1 : 10, 6);
+  cmap.writeUInt32BE(12, 8);
+
+  const header = Buffer.alloc(28);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(1, 4);
+  header.write("cmap", 12, "latin1");
+  header.writeUInt32BE(28, 20);
+  header.writeUInt32BE(cmap.length + sub.length, 24);
+  return Buffer.concat([header, cmap, sub]);
+}
+
+function font(key: string, data: Buffer | null, fallback?: string[]): FontDef {
+  const file = path.join(tmp, `${key}.ttf`);
+  if (data) fs.writeFileSync(file, data);
+  return { path: file, family: key, name: key, fallback };
+}
+
+test("fontCoverage reads format 4 and format 12 cmap subtables", () => {
+  assert.deepEqual(fontCoverage(font("bmp", cmapFont(4, [[0x4e00, 0x9fff], [0x20, 0x7e]]))), [[0x20, 0x7e], [0x4e00, 0x9fff]]);
+  assert.deepEqual(fontCoverage(font("full", cmapFont(12, [[0x1f600, 0x1f64f]]))), [[0x1f600, 0x1f64f]]);
+});
+
+test("fontCoverage is null for missing or unreadable fonts", () => {
+  assert.equal(fontCoverage(font("missing", null)), null);
+  assert.equal(fontCoverage(font("nocmap", Buffer.alloc(12))), null);
+});
+
+test("fontChain follows fallbacks recursively without repeats", () => {
+  const fonts = {
+    a: font("a", null, ["b", "c"]),
+    b: font("b", null, ["a", "c"]),
+    c: font("c", null, ["missing"]),
+  };
+  assert.deepEqual(fontChain("a", fonts).map(f => f.family), ["a", "b", "c"]);
+  assert.deepEqual(fontChain("unknown", fonts), []);
+});
+
+test("pickFontFamily takes the first font in the chain that has the glyph", () => {
+  const fonts = {
+    latin: font("latin", cmapFont(4, [[0x20, 0x7e]]), ["cjk", "emoji"]),
+    cjk: font("cjk", cmapFont(4, [[0x4e00, 0x9fff]]), ["emoji"]),
+    emoji: font("emoji", cmapFont(12, [[0x2764, 0x2764], [0x1f600, 0x1f64f]])),
+  };
+  assert.equal(pickFontFamily("a", "latin", fonts), "latin");
+  assert.equal(pickFontFamily("中", "latin", fonts), "cjk");
+  assert.equal(pickFontFamily("😀", "latin", fonts), "emoji");
+  // 变体选择符不参与覆盖判断
+  assert.equal(pickFontFamily("❤️", "latin", fonts), "emoji");
+  // 都不包含时保持主字体
+  assert.equal(pickFontFamily("あ", "latin", fonts), "latin");
+});
+
+test("pickFontFamily keeps the primary font when its coverage is unknown", () => {
+  const fonts = {
+    primary: font("unknown-primary", null, ["emoji"]),
+    emoji: font("emoji2", cmapFont(12, [[0x1f600, 0x1f64f]])),
+  };
+  assert.equal(pickFontFamily("😀", "unknown-primary", fonts), "unknown-primary");
+});
+
+test("emojiSpriteNames uses Twemoji names with and without FE0F", () => {
+  assert.deepEqual(emojiSpriteNames("😀"), ["1f600.png"]);
+  assert.deepEqual(emojiSpriteNames("❤️"), ["2764.png", "2764-fe0f.png"]);
+  assert.deepEqual(emojiSpriteNames("👍🏽"), ["1f44d-1f3fd.png"]);
+});
+
+test("emojiSpriteFiles maps emoji in the texts to files in imageDir", async () => {
+  const dir = path.join(tmp, "emoji");
+  fs.mkdirSync(dir);
+  fs.writeFileSync(path.join(dir, "1f600.png"), "");
+  fs.writeFileSync(path.join(dir, "2764-fe0f.png"), "");
+  const sprites = await emojiSpriteFiles(["<b>😀</b>文字", "❤️🙂"], { imageDir: dir });
+  assert.deepEqual([...sprites], [["😀", path.join(dir, "1f600.png")], ["❤️", path.join(dir, "2764-fe0f.png")]]);
+  assert.equal((await emojiSpriteFiles(["😀"], {})).size, 0);
+});
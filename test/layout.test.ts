@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import type { CanvasRenderingContext2D, Image } from "canvas";
+import { clipLines, fitRichBlock, layoutBounds, layoutRichText, paginateLines, type LayoutLine, type RichBlockStyle } from "../src/layout";
+
+// 每个字宽等于当前字号，按 ctx.font 中的像素值计算
+function fakeCtx() {
+  const ctx = {
+    font: "",
+    measureText(text: string) {
+      const size = Number(/([\d.]+)px/.exec(ctx.font)?.[1] ?? 10);
+      return { width: Array.from(text).length * size, actualBoundingBoxAscent: size * 0.8 };
+    },
+  };
+  return ctx as unknown as CanvasRenderingContext2D;
+}
+
+const base: RichBlockStyle = { x: 100, y: 0, fontFamily: "Test", fontSize: 10, lineHeight: 14, textAlign: "left", color: "#000" };
+
+function texts(lines: LayoutLine[]) {
+  return lines.map(l => l.glyphs.map(g => g.text).join(""));
+}
+
+test("layoutRichText wraps by measured pixel width", () => {
+  const lines = layoutRichText(fakeCtx(), "一二三四五六", { ...base, width: 40 });
+  assert.deepEqual(texts(lines), ["一二三四", "五六"]);
+  assert.deepEqual(lines.map(l => l.width), [40, 20]);
+});
+
+test("inline sizes take their own width and raise the line's font size", () => {
+  const lines = layoutRichText(fakeCtx(), "<s:20>一二</s>三四", { ...base, width: 40 });
+  assert.deepEqual(texts(lines), ["一二", "三四"]);
+  assert.deepEqual(lines.map(l => l.maxFontSize), [20, 10]);
+});
+
+test("without a width, lines wrap by charsPerLine", () => {
+  assert.deepEqual(texts(layoutRichText(fakeCtx(), "一二三四五", { ...base, charsPerLine: 3 })), ["一二三", "四五"]);
+});
+
+test("textAlign offsets the block inside its box, or around x without one", () => {
+  const at = (style: Partial<RichBlockStyle>) => {
+    const full = { ...base, ...style };
+    return layoutBounds(layoutRichText(fakeCtx(), "一二", full), full)?.x;
+  };
+  assert.equal(at({ width: 40 }), 100);
+  assert.equal(at({ width: 40, textAlign: "center" }), 110);
+  assert.equal(at({ width: 40, textAlign: "right" }), 120);
+  assert.equal(at({ textAlign: "center" }), 90);
+  assert.equal(at({ textAlign: "right" }), 80);
+});
+
+test("paginateLines splits by maxLines onto continuation pages", () => {
+  const style = { ...base, charsPerLine: 2, maxLines: 2 };
+  const pages = paginateLines(layoutRichText(fakeCtx(), "一二三四五六七八九十", style), style);
+  assert.deepEqual(pages.map(texts), [["一二", "三四"], ["五六", "七八"], ["九十"]]);
+});
+
+test("paginateLines splits by box height, counting taller lines", () => {
+  const style = { ...base, charsPerLine: 2, height: 30 };
+  const lines = layoutRichText(fakeCtx(), "一二三四五六", style);
+  assert.deepEqual(paginateLines(lines, style).map(texts), [["一二", "三四"], ["五六"]]);
+  // 20px 的行按 28 计高，与 14 的行放不进 30 高的框
+  const mixed = layoutRichText(fakeCtx(), "<s:20>一二</s>三四", style);
+  assert.deepEqual(paginateLines(mixed, style).map(texts), [["一二"], ["三四"]]);
+});
+
+test("clipLines keeps the first page under both maxLines and height", () => {
+  const lines = layoutRichText(fakeCtx(), "一二三四五六七八", { ...base, charsPerLine: 2 });
+  assert.deepEqual(texts(clipLines(lines, { ...base, maxLines: 3 })), ["一二", "三四", "五六"]);
+  assert.deepEqual(texts(clipLines(lines, { ...base, maxLines: 3, height: 20 })), ["一二"]);
+  assert.deepEqual(texts(clipLines(lines, { ...base, height: 45 })), ["一二", "三四", "五六"]);
+  assert.deepEqual(clipLines([], { ...base, maxLines: 3 }), []);
+});
+
+test("fitRichBlock finds the largest size that fits the box", () => {
+  const style = { ...base, width: 80, height: 20 };
+  // 11px 时换成两行，28 高放不进 20
+  assert.equal(fitRichBlock(fakeCtx(), "一二三四五六七八", style, { mode: "both", minFontSize: 8, maxFontSize: 20 }).fontSize, 10);
+  const grown = fitRichBlock(fakeCtx(), "一二", style, { mode: "grow", maxFontSize: 40 });
+  assert.equal(grown.fontSize, 14);
+  assert.equal(grown.lineHeight, 20);
+});
+
+test("fitRichBlock keeps the minimum size when nothing fits", () => {
+  const style = { ...base, width: 20, maxLines: 1 };
+  assert.equal(fitRichBlock(fakeCtx(), "一二三四五六", style, { mode: "shrink", minFontSize: 6 }).fontSize, 6);
+});
+
+test("fitRichBlock counts leading figures against the box height", () => {
+  const style = { ...base, width: 80, height: 100 };
+  const fit = { mode: "both" as const, minFontSize: 8, maxFontSize: 20 };
+  const figure = { image: { width: 80, height: 40 } as Image };
+  assert.equal(fitRichBlock(fakeCtx(), "一二三四五六七八", style, fit).fontSize, 20);
+  // 插图占 40 加上下各半个行高的间距
+  assert.equal(fitRichBlock(fakeCtx(), "一二三四五六七八", style, fit, [figure]).fontSize, 14);
+});
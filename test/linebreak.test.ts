@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { breakParagraph, classifyGlyph, splitGraphemes } from "../src/linebreak";
+import type { LayoutGlyph } from "../src/layout";
+import type { LineBreakOptions } from "../src/config";
+
+// 每个字宽 10，按像素断行
+function glyphs(text: string): LayoutGlyph[] {
+  return splitGraphemes(text).map(t => ({
+    text: t, color: "#000", fontSize: 10, fontFamily: "sans-serif", width: 10, kind: classifyGlyph(t),
+  }));
+}
+
+function lines(text: string, chars: number, options?: LineBreakOptions) {
+  const hyphen = (g: LayoutGlyph): LayoutGlyph => ({ ...g, text: "-", kind: "word" });
+  return breakParagraph(glyphs(text), chars * 10, g => g.width, hyphen, options, 10)
+    .map(l => l.glyphs.map(g => g.text).join(""));
+}
+
+test("splitGraphemes keeps emoji sequences and flags together", () => {
+  assert.deepEqual(splitGraphemes("a👍🏽🇨🇳"), ["a", "👍🏽", "🇨🇳"]);
+  assert.deepEqual(splitGraphemes("👨‍👩‍👧"), ["👨‍👩‍👧"]);
+});
+
+test("kinsoku keeps closing punctuation off the line start", () => {
+  assert.deepEqual(lines("一二三四。五六", 4), ["一二三", "四。五六"]);
+  assert.deepEqual(lines("一二三四。五六", 4, { kinsoku: false }), ["一二三四", "。五六"]);
+});
+
+test("kinsoku keeps opening brackets off the line end", () => {
+  assert.deepEqual(lines("一二三「四五」", 4), ["一二三", "「四五」"]);
+});
+
+test("forced breaks inside a glued segment still respect kinsoku", () => {
+  // 一整段被标点粘在一起、比整行还宽时按字强制断开，断点不落在句号前
+  assert.deepEqual(lines("abcd。ef", 4), ["abc", "d。ef"]);
+  assert.deepEqual(lines("abc。。。", 3), ["ab", "c。。。"]);
+});
+
+test("hyphenate only splits words wider than a full line", () => {
+  assert.deepEqual(lines("go wonderful", 8, { hyphenate: true }), ["go wond-", "erful"]);
+  // 放得进一整行的单词整体换行，不断开
+  assert.deepEqual(lines("abc defghij", 8, { hyphenate: true }), ["abc", "defghij"]);
+});
+
+test("hanging punctuation may stick out past the limit", () => {
+  assert.deepEqual(lines("一二三四，五", 4, { hangingPunctuation: true }), ["一二三四，", "五"]);
+});
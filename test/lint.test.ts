@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import type { CanvasRenderingContext2D } from "canvas";
+import type { BaseTextStyle } from "../src/config";
+import { PAGE_MARK_DEFAULTS, TEXT_DEFAULTS, defaultLineHeight, layoutBounds, layoutRichText } from "../src/layout";
+import { boxRect, contrastRatio, parseColor } from "../src/lint";
+
+// 每个字宽等于当前字号，与 boxRect 按字数乘字号的估算一致
+function fakeCtx() {
+  const ctx = {
+    font: "",
+    measureText(text: string) {
+      const size = Number(/([\d.]+)px/.exec(ctx.font)?.[1] ?? 10);
+      return { width: Array.from(text).length * size, actualBoundingBoxAscent: size * 0.8 };
+    },
+  };
+  return ctx as unknown as CanvasRenderingContext2D;
+}
+
+/** 按渲染时的默认字号、行高与每行字数排版后的外接矩形 */
+function rendered(t: BaseTextStyle, defaults: typeof TEXT_DEFAULTS) {
+  const fontSize = t.fontSize ?? defaults.fontSize;
+  const style = {
+    ...t, fontSize, fontFamily: "Test",
+    lineHeight: t.lineHeight ?? defaultLineHeight(fontSize),
+    charsPerLine: t.charsPerLine ?? defaults.charsPerLine,
+  };
+  return layoutBounds(layoutRichText(fakeCtx(), t.text ?? "", style), style);
+}
+
+// 页眉页脚与 manifest 中的文字块可以不写字号、字体与对齐
+const box = (t: Partial<BaseTextStyle>) => ({ x: 0, y: 0, color: "#000", ...t }) as BaseTextStyle;
+
+test("parseColor reads hex and rgb() colors and ignores alpha", () => {
+  assert.deepEqual(parseColor("#abc"), [170, 187, 204]);
+  assert.deepEqual(parseColor("#abcd"), [170, 187, 204]);
+  assert.deepEqual(parseColor(" #11223344 "), [17, 34, 51]);
+  assert.deepEqual(parseColor("rgba(1, 2, 3, .5)"), [1, 2, 3]);
+  for (const c of [undefined, "", "red", "#12345", "rgb(1, x, 3)", "primary"]) assert.equal(parseColor(c), null, c);
+});
+
+test("contrastRatio follows WCAG and does not depend on argument order", () => {
+  assert.equal(contrastRatio(1, 0), 21);
+  assert.equal(contrastRatio(0, 1), 21);
+  assert.equal(contrastRatio(0.5, 0.5), 1);
+});
+
+test("boxRect matches the rendered block when size and wrapping come from the defaults", () => {
+  const cases = [
+    box({ x: 100, y: 50, text: "一二三" }),
+    box({ x: 540, y: 50, text: "一二三", textAlign: "center" }),
+    box({ x: 980, y: 50, text: "一二三", textAlign: "right" }),
+    box({ x: 100, y: 50, text: "一".repeat(25) }),
+    box({ x: 100, y: 50, text: "一二\n三", fontSize: 20, lineHeight: 30 }),
+  ];
+  for (const t of cases) assert.deepEqual(boxRect(t, TEXT_DEFAULTS), rendered(t, TEXT_DEFAULTS), t.text);
+
+  const footer = box({ x: 540, y: 1300, text: "第 1 页 共 3 页", textAlign: "center" });
+  assert.deepEqual(boxRect(footer, PAGE_MARK_DEFAULTS), rendered(footer, PAGE_MARK_DEFAULTS));
+});
+
+test("boxRect estimates empty boxes as full lines and keeps explicit sizes", () => {
+  assert.deepEqual(boxRect(box({ maxLines: 3 }), TEXT_DEFAULTS),
+    { x: 0, y: 0, width: TEXT_DEFAULTS.charsPerLine * 36, height: 3 * defaultLineHeight(36) });
+  assert.deepEqual(boxRect(box({ x: 10, y: 20, width: 300, height: 200, textAlign: "center", text: "一" }), TEXT_DEFAULTS),
+    { x: 10, y: 20, width: 300, height: 200 });
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as path from "node:path";
+import config from "../src/config";
+import { applyTemplateManifest } from "../src/manifest";
+
+const dir = path.resolve("/templates/demo");
+
+test("array fields merge by index and keep the slots the manifest leaves out", () => {
+  const merged = applyTemplateManifest(config, {
+    title: [{ y: 600 }, {}, { color: "accent" }, { y: 900 }],
+    ending: [{ fontSize: 40 }],
+  }, dir);
+  assert.deepEqual(merged.title[0], { ...config.title[0], y: 600 });
+  assert.deepEqual(merged.title[1], config.title[1]);
+  assert.deepEqual(merged.title[2], { ...config.title[2], color: "accent" });
+  // 超出全局槽位数的项被忽略
+  assert.equal(merged.title.length, config.title.length);
+  assert.deepEqual(merged.ending[0], { ...config.ending[0], fontSize: 40 });
+});
+
+test("page applies to every text page and pages override single slots", () => {
+  const merged = applyTemplateManifest(config, { page: { fontSize: 30, color: "muted" }, pages: [{}, { fontSize: 28 }] }, dir);
+  assert.ok(merged.pages.every(p => p.color === "muted"));
+  assert.deepEqual(merged.pages.map(p => p.fontSize), config.pages.map((_, i) => (i === 1 ? 28 : 30)));
+  assert.deepEqual(merged.pages[0], { ...config.pages[0], fontSize: 30, color: "muted" });
+});
+
+test("the base config is left untouched", () => {
+  const before = structuredClone(config);
+  applyTemplateManifest(config, { title: [{ y: 1 }], page: { fontSize: 1 }, image: { width: 1 } }, dir);
+  assert.deepEqual(config, before);
+});
+
+test("font paths resolve inside the template directory", () => {
+  const merged = applyTemplateManifest(config, { fonts: { Hand: { path: "./fonts/hand.ttf", family: "Hand", name: "Hand" } } }, dir);
+  assert.equal(merged.fonts.Hand.path, path.join(dir, "fonts/hand.ttf"));
+  for (const p of ["../other/fonts/x.ttf", "/usr/share/fonts/x.ttf"]) {
+    assert.throws(() => applyTemplateManifest(config, { fonts: { X: { path: p, family: "X", name: "X" } } }, dir),
+      /must be inside the template directory/);
+  }
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import config, { type BaseTextStyle } from "../src/config";
+import { markdownToRequest } from "../src/markdown";
+
+// 只给出自动分页用到的 Markdown 样式与正文槽位
+function convert(source: string, pages: Partial<BaseTextStyle>[] = [{ charsPerLine: 20, maxLines: 10 }]) {
+  return markdownToRequest(source, {}, async () => ({ markdown: config.markdown, pages: pages as BaseTextStyle[] }));
+}
+
+const P = "一二三四五六七八九十";
+
+test("front matter fills the request and unknown keys are reported", async () => {
+  const { request, warnings } = await convert("---\ntitleDir: demo\ntheme: warm\nhandle: me\nending: 谢谢\ncolour: red\n---\n正文\n");
+  assert.equal(request.titleDir, "demo");
+  assert.equal(request.theme, "warm");
+  assert.deepEqual(request.endingTexts, ["谢谢"]);
+  assert.deepEqual(request.overrides?.account, { handle: "me" });
+  assert.deepEqual(request.pages, ["正文"]);
+  assert.deepEqual(warnings, ["Unknown front matter key: colour"]);
+});
+
+test("extra fields win over front matter", async () => {
+  const { request } = await markdownToRequest("---\ntitleDir: a\ntheme: warm\n---\n正文", { titleDir: "b" },
+    async () => ({ markdown: config.markdown, pages: [] }));
+  assert.equal(request.titleDir, "b");
+  assert.equal(request.theme, "warm");
+});
+
+test("a leading H1 becomes the cover title unless front matter sets one", async () => {
+  assert.deepEqual((await convert("# 我的标题\n\n正文")).request.titleTexts, ["我的标题"]);
+  assert.deepEqual((await convert("---\ntitle: [上, 下]\n---\n# 我的标题\n\n正文")).request.titleTexts, ["上", "下"]);
+});
+
+test("inline markdown becomes inline markup", async () => {
+  const { request } = await convert("**粗** *斜* ~~删~~ `a<b` [链接](http://x) ![图](pic) \\*星\\*");
+  assert.deepEqual(request.pages, [
+    "<b>粗</b> <i>斜</i> <del>删</del> <c:accent>a\\<b</c> <u>链接</u> <img:pic> *星*",
+  ]);
+});
+
+test("soft breaks join lines, with a space only between latin words", async () => {
+  const { request } = await convert("中文\n续行\nEnglish\nwords\n行尾硬换行  \n下一行\\\n末行");
+  assert.deepEqual(request.pages, ["中文续行English words行尾硬换行\n下一行\n末行"]);
+});
+
+test("lists keep their relative depth and quotes use the quote style", async () => {
+  const { request } = await convert("* 一\n    + 二\n        1. 三\n> 引用");
+  assert.deepEqual(request.pages, ["- 一\n  - 二\n    1. 三\n<c:muted>引用</c>"]);
+});
+
+test("explicit breaks split pages and every page turns on list parsing and pagination", async () => {
+  const { request } = await convert("甲\n\n---\n\n乙\n\n***\n", [{ charsPerLine: 10, maxLines: 2, blocks: { bullet: "◆" } }, {}, {}]);
+  assert.deepEqual(request.pages, ["甲", "乙"]);
+  const page = { blocks: { bullet: "◆" }, overflow: "paginate" };
+  assert.deepEqual(request.overrides?.pages, [page, page, page]);
+});
+
+test("auto pagination moves a trailing heading to the next page", async () => {
+  const { request } = await convert(`## 一\n\n${P}\n\n${P}\n\n## 二\n\n${P}${P}\n`, [{ charsPerLine: 10, maxLines: 4 }]);
+  assert.deepEqual(request.pages, [
+    `<b><c:primary>一</c></b>\n${P}\n${P}`,
+    `<b><c:primary>二</c></b>\n${P}${P}`,
+  ]);
+  assert.equal(request.overrides?.pages?.length, 2);
+});
+
+test("a paragraph longer than a page is cut with tags closed at the cut", async () => {
+  const { request } = await convert(`<b>${P}${P}${P}</b>${P}${P}`, [{ charsPerLine: 10, maxLines: 2 }]);
+  assert.deepEqual(request.pages, [
+    `<b>${P}</b><b>${P}</b>`,
+    `<b>${P}</b>${P}`,
+    P,
+  ]);
+});
+
+test("an unclosed code fence is reported", async () => {
+  const { request, warnings } = await convert("```\nx<y\n```\n\n```\n代码");
+  assert.deepEqual(request.pages, ["<c:accent>x\\<y</c>\n<c:accent>代码</c>"]);
+  assert.deepEqual(warnings, ["Unclosed code block"]);
+});
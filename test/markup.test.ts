@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseInline, splitIntoInlineSafeLines, tokenizeInline } from "../src/markup";
+import type { FontDef } from "../src/config";
+
+const base = { color: "#000000", fontSize: 36, fontFamily: "Yozai-Regular" };
+const fonts: Record<string, FontDef> = {
+  "yozai-medium": { path: "fonts/Yozai-Medium.ttf", family: "Yozai-Medium", name: "Yozai Medium" },
+  emoji: { path: "fonts/NotoColorEmoji.ttf", family: "Noto Color Emoji", name: "Noto Color Emoji" },
+};
+
+test("tokenizeInline splits tags, images and escaped brackets", () => {
+  assert.deepEqual(tokenizeInline("a<c:#f00>b</c>\\<c\\><img:pic>"), [
+    { type: "text", text: "a" },
+    { type: "open", name: "c", value: "#f00", raw: "c:#f00" },
+    { type: "text", text: "b" },
+    { type: "close", name: "c", raw: "/c" },
+    { type: "text", text: "<c>" },
+    { type: "image", name: "pic", raw: "img:pic" },
+  ]);
+});
+
+test("tokenizeInline keeps text that only looks like a tag", () => {
+  assert.deepEqual(tokenizeInline("<3 爱你> a < b"), [{ type: "text", text: "<3 爱你> a < b" }]);
+});
+
+test("unknown and malformed tags are dropped with a warning", () => {
+  const warnings: string[] = [];
+  assert.deepEqual(tokenizeInline("<x>a</x><c>b<b:1>", warnings), [{ type: "text", text: "ab" }]);
+  assert.deepEqual(warnings, ["Unknown inline tag <x>", "Unknown inline tag </x>", "Unknown inline tag <c>", "Unknown inline tag <b:1>"]);
+});
+
+test("nested tags stack and closing restores the outer style", () => {
+  const spans = parseInline("<c:#f00>红<s:60><b>大</b>中</s>尾</c>", base);
+  assert.deepEqual(spans.map(s => [s.text, s.color, s.fontSize, !!s.bold]), [
+    ["红", "#f00", 36, false],
+    ["大", "#f00", 60, true],
+    ["中", "#f00", 60, false],
+    ["尾", "#f00", 36, false],
+  ]);
+});
+
+test("crossed tags close the nearest tag of the same name", () => {
+  const spans = parseInline("<b>a<i>b</b>c</i>d", base);
+  assert.deepEqual(spans.map(s => [s.text, !!s.bold, !!s.italic]), [
+    ["a", true, false],
+    ["b", true, true],
+    ["c", false, true],
+    ["d", false, false],
+  ]);
+});
+
+test("an unmatched closing tag is reported and ignored", () => {
+  const warnings: string[] = [];
+  const spans = parseInline("a</u>b", base, { warnings });
+  assert.deepEqual(spans.map(s => s.text), ["a", "b"]);
+  assert.deepEqual(warnings, ["Unmatched closing tag </u>"]);
+});
+
+test("font tags resolve config keys, names and families case-insensitively", () => {
+  const warnings: string[] = [];
+  const spans = parseInline("<f:Yozai-Medium>a</f><f:noto color emoji>b</f><f:missing>c</f>", base, { fonts, warnings });
+  assert.deepEqual(spans.map(s => s.fontFamily), ["Yozai-Medium", "Noto Color Emoji", "Yozai-Regular"]);
+  assert.deepEqual(warnings, ["Unknown font <f:missing>"]);
+});
+
+test("theme role names resolve in color arguments", () => {
+  const theme = { primary: "#111111", accent: "#ff4d4f", text: "#333333", muted: "#999999", background: "#ffffff" };
+  const [span] = parseInline("<c:accent><grad:90,primary,muted>x</grad></c>", base, { theme });
+  assert.equal(span.color, "#ff4d4f");
+  assert.deepEqual(span.gradient, { colors: ["#111111", "#999999"], angle: 90 });
+});
+
+test("splitIntoInlineSafeLines closes and reopens tags across lines", () => {
+  assert.deepEqual(splitIntoInlineSafeLines("<c:#f00>一二三<b>四五</b></c>六", 2), [
+    "<c:#f00>一二</c>",
+    "<c:#f00>三<b>四</b></c>",
+    "<c:#f00><b>五</b></c>六",
+  ]);
+});
+
+test("box and circle tags set a frame with an optional line width", () => {
+  const theme = { primary: "#111111", accent: "#ff4d4f", text: "#333333", muted: "#999999", background: "#ffffff" };
+  const spans = parseInline("<box:#f00,3>a</box><circle:accent>b</circle>c", base, { theme });
+  assert.deepEqual(spans.map(s => [s.text, s.frame]), [
+    ["a", { shape: "box", color: "#f00", width: 3 }],
+    ["b", { shape: "circle", color: "#ff4d4f", width: undefined }],
+    ["c", undefined],
+  ]);
+});
+
+test("box and circle need a color argument", () => {
+  const warnings: string[] = [];
+  const spans = parseInline("<box>a</box>", base, { warnings });
+  assert.equal(spans[0].frame, undefined);
+  assert.deepEqual(warnings, ["Unknown inline tag <box>", "Unmatched closing tag </box>"]);
+});
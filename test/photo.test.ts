@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import sharp from "sharp";
+import { photoBuffer, preparePhoto } from "../src/photo";
+
+/** 从左到右等宽的纵向色条 */
+async function stripes(colors: string[], width: number, height: number) {
+  const w = width / colors.length;
+  const bars = await Promise.all(colors.map(background =>
+    sharp({ create: { width: w, height, channels: 3, background } }).png().toBuffer()));
+  return sharp({ create: { width, height, channels: 3, background: "#000000" } })
+    .composite(bars.map((input, i) => ({ input, left: i * w, top: 0 })))
+    .png()
+    .toBuffer();
+}
+
+async function pixels(png: Buffer) {
+  const { data, info } = await sharp(png).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const at = (x: number, y: number) => Array.from(data.subarray((y * info.width + x) * 3, (y * info.width + x) * 3 + 3));
+  return { info, at };
+}
+
+test("photoBuffer accepts data URLs, bare base64 and buffers", () => {
+  const buf = Buffer.from("photo");
+  assert.deepEqual(photoBuffer(`data:image/png;base64,${buf.toString("base64")}`), buf);
+  assert.deepEqual(photoBuffer(` ${buf.toString("base64")}\n`), buf);
+  assert.equal(photoBuffer(buf), buf);
+});
+
+test("photos over the pixel cap are rejected before decoding", async () => {
+  const huge = await sharp({ create: { width: 10000, height: 6000, channels: 3, background: "#888" } })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+  await assert.rejects(preparePhoto(huge, {}, 100, 100), /Photo is too large: 10000x6000/);
+});
+
+test("cover fills the canvas and crops around the focus", async () => {
+  const photo = await stripes(["#ff0000", "#0000ff"], 200, 100);
+  const centered = await pixels(await preparePhoto(photo, {}, 50, 50));
+  assert.deepEqual([centered.info.width, centered.info.height], [50, 50]);
+  // 居中裁切跨过红蓝分界
+  assert.deepEqual(centered.at(5, 25), [255, 0, 0]);
+  assert.deepEqual(centered.at(45, 25), [0, 0, 255]);
+
+  const left = await pixels(await preparePhoto(photo, { focus: { x: 0, y: 0.5 } }, 50, 50));
+  assert.deepEqual(left.at(45, 25), [255, 0, 0]);
+  const right = await pixels(await preparePhoto(photo, { focus: { x: 2, y: 0.5 } }, 50, 50));
+  assert.deepEqual(right.at(5, 25), [0, 0, 255]);
+});
+
+test("contain keeps the whole photo centered over a blurred backdrop", async () => {
+  const photo = await stripes(["#ff0000", "#00ff00", "#0000ff"], 300, 100);
+  const { info, at } = await pixels(await preparePhoto(photo, { fit: "contain" }, 100, 100));
+  assert.deepEqual([info.width, info.height], [100, 100]);
+  // 照片缩到 100x33 放在中间，三条颜色都在；居中裁切时只会剩下绿色
+  assert.deepEqual([at(10, 50), at(50, 50), at(90, 50)], [[255, 0, 0], [0, 255, 0], [0, 0, 255]]);
+  assert.notDeepEqual(at(10, 5), [255, 0, 0]);
+});
+
+test("brightness scales the result and transparency is flattened onto white", async () => {
+  const clear = await sharp({ create: { width: 20, height: 20, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } }).png().toBuffer();
+  assert.deepEqual((await pixels(await preparePhoto(clear, {}, 10, 10))).at(5, 5), [255, 255, 255]);
+  assert.deepEqual((await pixels(await preparePhoto(clear, { brightness: 0 }, 10, 10))).at(5, 5), [0, 0, 0]);
+});
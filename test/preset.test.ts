@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import defaults, { type AppConfig, type BaseTextStyle, type PageSpec, type TextElement } from "../src/config";
+import { BODY_TEXT_DEFAULTS } from "../src/layout";
+import { defaultLayout, resolveQRCodes } from "../src/preset";
+
+const config: AppConfig = defaults;
+const style = (text: string, extra: Partial<BaseTextStyle> = {}) => ({ ...config.pages[0]!, ...extra, text });
+const ids = (spec: PageSpec | undefined) => spec?.elements.map(el => el.id ?? el.type);
+
+function layout(patch: Partial<AppConfig>, request: Parameters<typeof defaultLayout>[1] = { titleDir: "t" }) {
+  return defaultLayout({ ...config, ...patch }, request);
+}
+
+test("the classic flow is a cover, one page per filled body slot, then the ending", () => {
+  const specs = layout({
+    title: [style("上"), style("下")],
+    pages: [style("第一页"), style(""), style("第三页")],
+    ending: [style("谢谢"), style("")],
+  });
+  assert.deepEqual(specs.map(s => [s.kind, s.name]), [["cover", "cover"], ["text", undefined], ["text", undefined], ["ending", "ending"]]);
+  assert.deepEqual(specs.map(ids), [
+    ["overlay", "title[0]", "title[1]"],
+    ["overlay", "pages[0]"],
+    ["overlay", "pages[2]"],
+    ["overlay", "ending[0]"],
+  ]);
+  const [title] = specs[0].elements.filter(el => el.type === "text");
+  assert.equal(title.type === "text" && title.maxLines, 1);
+  const [ending] = specs[3].elements.filter(el => el.type === "text");
+  assert.equal(ending.type === "text" && ending.tokens, true);
+});
+
+test("a body slot with only figures still gets a page, and missing sizes use the body defaults", () => {
+  const figures = [{ name: "pic" }];
+  const bare = { ...style(""), fontSize: undefined, charsPerLine: undefined } as unknown as BaseTextStyle;
+  const specs = layout({ pages: [bare] }, { titleDir: "t", pageImages: [figures] });
+  const body = specs.find(s => s.kind === "text")?.elements.find((el): el is TextElement => el.type === "text");
+  assert.equal(body?.fontSize, BODY_TEXT_DEFAULTS.fontSize);
+  assert.equal(body?.charsPerLine, BODY_TEXT_DEFAULTS.charsPerLine);
+  assert.equal(body?.figures, figures);
+});
+
+test("shapes go between the overlay and the text on the pages they are meant for", () => {
+  const shapes = [
+    { type: "shape" as const, id: "everywhere", shape: "rect" as const, x: 0, y: 0, width: 1, height: 1 },
+    { type: "shape" as const, id: "body-only", shape: "rect" as const, x: 0, y: 0, width: 1, height: 1, pages: ["text" as const] },
+  ];
+  const specs = layout({ title: [], pages: [style("正文")], ending: [], qrcodes: [], shapes });
+  assert.deepEqual(specs.map(ids), [["overlay", "everywhere"], ["overlay", "everywhere", "body-only", "pages[0]"], ["overlay", "everywhere"]]);
+});
+
+test("QR codes reuse the last style slot and skip empty contents", () => {
+  const styles = [{ x: 10, y: 10, size: 100, color: "#000" }, { x: 200, y: 10, size: 80, color: "#333" }];
+  const resolved = resolveQRCodes(styles, ["a", { text: "b", color: "#f00" }, "c"]);
+  assert.deepEqual(resolved.map(q => [q.x, q.color, q.text]), [[10, "#000", "a"], [200, "#f00", "b"], [200, "#333", "c"]]);
+
+  const specs = layout({ ending: [], qrcodes: styles }, { titleDir: "t", qrcodes: ["a", ""] });
+  assert.deepEqual(ids(specs[specs.length - 1]), ["overlay", "qrcodes[0]"]);
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createRandom, deriveSeed, normalizeSeed } from "../src/random";
+
+const take = (seed: number, n = 5) => {
+  const rand = createRandom(seed);
+  return Array.from({ length: n }, () => rand());
+};
+
+test("the same seed always gives the same sequence in [0, 1)", () => {
+  assert.deepEqual(take(42), take(42));
+  assert.notDeepEqual(take(42), take(43));
+  for (const v of take(7, 200)) assert.ok(v >= 0 && v < 1);
+});
+
+test("normalizeSeed keeps 32-bit integers and hashes everything else", () => {
+  assert.equal(normalizeSeed(123), 123);
+  assert.equal(normalizeSeed(0xffffffff), 0xffffffff);
+  assert.equal(normalizeSeed("note"), normalizeSeed("note"));
+  assert.notEqual(normalizeSeed("123"), 123);
+  for (const seed of [-1, 1.5, 2 ** 32, "note"]) {
+    const n = normalizeSeed(seed);
+    assert.ok(Number.isInteger(n) && n >= 0 && n <= 0xffffffff);
+  }
+});
+
+test("deriveSeed gives each page its own stable seed", () => {
+  assert.equal(deriveSeed(42, "text_1"), deriveSeed(42, "text_1"));
+  const pages = ["cover", "text_1", "text_2", "ending"].map(label => deriveSeed(42, label));
+  assert.equal(new Set(pages).size, pages.length);
+  assert.notEqual(deriveSeed(42, "cover"), deriveSeed(43, "cover"));
+  // 页面的序列只取决于主种子与页名，与其他页面无关
+  assert.deepEqual(take(deriveSeed(42, "text_2")), take(deriveSeed(42, "text_2")));
+  assert.notDeepEqual(take(deriveSeed(42, "text_1")), take(deriveSeed(42, "text_2")));
+});
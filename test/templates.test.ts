@@ -0,0 +1,97 @@
+import { test, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import AdmZip from "adm-zip";
+import { TemplateError, extractZip, swapDir, templatePath, validateTemplateDir } from "../src/templates";
+import { TEMPLATE_DIR } from "../src/utils";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "templates-test-"));
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+let count = 0;
+const freshDir = () => fs.mkdtempSync(path.join(tmp, `t${++count}-`));
+
+/** 只有签名与 IHDR 宽高的 PNG，足够 pngSize 识别 */
+function png(width: number, height: number) {
+  const buf = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buf);
+  buf.writeUInt32BE(width, 16);
+  buf.writeUInt32BE(height, 20);
+  return buf;
+}
+
+function zipOf(files: Record<string, Buffer>) {
+  const zip = new AdmZip();
+  for (const [name, data] of Object.entries(files)) zip.addFile(name, data);
+  return zip.toBuffer();
+}
+
+test("templatePath accepts plain names and rejects anything path-like", () => {
+  assert.equal(templatePath("手帐-v2.1"), path.join(TEMPLATE_DIR, "手帐-v2.1"));
+  for (const name of ["", "..", ".hidden", "a/b", "a\\b", "-x", "a b", "x".repeat(65)]) {
+    assert.throws(() => templatePath(name), TemplateError, name);
+  }
+});
+
+test("extractZip strips a single top folder and skips entries outside the template layout", async () => {
+  const dir = freshDir();
+  await extractZip(dir, zipOf({
+    "demo/cover.png": png(1080, 1350),
+    "demo/assets/star.png": png(10, 10),
+    "demo/notes.txt": Buffer.from("x"),
+  }));
+  assert.deepEqual(fs.readdirSync(dir).sort(), ["assets", "cover.png"]);
+  assert.deepEqual(fs.readdirSync(path.join(dir, "assets")), ["star.png"]);
+});
+
+test("extractZip rejects archives over the size cap", async () => {
+  const big = zipOf({ "cover.png": Buffer.alloc(600), "text.png": Buffer.alloc(600) });
+  await assert.rejects(extractZip(freshDir(), big, 1000), /too large/);
+  await extractZip(freshDir(), big, 2000);
+});
+
+test("extractZip rejects entries whose data is larger than their forged header", async () => {
+  const buf = zipOf({ "cover.png": Buffer.alloc(1000) });
+  // 把本地头与中央目录中的未压缩大小都改成 1
+  buf.writeUInt32LE(1, 22);
+  buf.writeUInt32LE(1, buf.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  await assert.rejects(extractZip(freshDir(), buf, 500), TemplateError);
+});
+
+test("validateTemplateDir reports folders and non-PNG files in assets", async () => {
+  const dir = freshDir();
+  for (const file of ["cover.png", "text.png", "ending.png"]) fs.writeFileSync(path.join(dir, file), png(1080, 1350));
+  fs.mkdirSync(path.join(dir, "assets", "nested"), { recursive: true });
+  fs.writeFileSync(path.join(dir, "assets", "star.png"), png(10, 10));
+  fs.writeFileSync(path.join(dir, "assets", "note.png"), "not a png");
+  assert.deepEqual((await validateTemplateDir(dir)).sort(), ["assets/nested is not a file", "assets/note.png is not a valid PNG"]);
+});
+
+test("validateTemplateDir reports mismatched sizes and manifest fonts outside the template", async () => {
+  const dir = freshDir();
+  fs.writeFileSync(path.join(dir, "cover.png"), png(1080, 1350));
+  fs.writeFileSync(path.join(dir, "text.png"), png(1080, 1080));
+  fs.writeFileSync(path.join(dir, "template.json"), JSON.stringify({ fonts: { X: { path: "../x.ttf", family: "X", name: "X" } } }));
+  assert.deepEqual(await validateTemplateDir(dir), [
+    "Font X must be inside the template directory: ../x.ttf",
+    "Missing required file: ending.png",
+    "text.png is 1080x1080, but cover.png is 1080x1350",
+  ]);
+});
+
+test("swapDir replaces the target and restores it when the swap fails", async () => {
+  const finalDir = path.join(freshDir(), "live");
+  fs.mkdirSync(finalDir);
+  fs.writeFileSync(path.join(finalDir, "cover.png"), "old");
+
+  await assert.rejects(swapDir(path.join(tmp, "missing-stage"), finalDir));
+  assert.equal(fs.readFileSync(path.join(finalDir, "cover.png"), "utf8"), "old");
+
+  const stageDir = freshDir();
+  fs.writeFileSync(path.join(stageDir, "cover.png"), "new");
+  await swapDir(stageDir, finalDir);
+  assert.equal(fs.readFileSync(path.join(finalDir, "cover.png"), "utf8"), "new");
+  assert.ok(!fs.existsSync(stageDir) && !fs.existsSync(`${stageDir}.old`));
+});
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import defaults, { type AppConfig } from "../src/config";
+import { applyTheme, mergeThemes, resolveThemeColor } from "../src/theme";
+
+const config: AppConfig = defaults;
+const warm = config.themes.warm;
+
+test("resolveThemeColor swaps role names and leaves other colors alone", () => {
+  assert.equal(resolveThemeColor(" accent ", warm), warm.accent);
+  assert.equal(resolveThemeColor("#123456", warm), "#123456");
+  assert.equal(resolveThemeColor("accent", undefined), "accent");
+  assert.equal(resolveThemeColor(undefined, warm), undefined);
+});
+
+test("applyTheme resolves roles throughout the config", () => {
+  const cfg: AppConfig = {
+    ...config,
+    shapes: [{ type: "shape", shape: "rect", x: 0, y: 0, width: 10, height: 10, fill: "accent", stroke: "#000" }],
+    backgrounds: { mode: "fallback", default: { type: "linear", color: "background", colors: ["primary", "#fff"] } },
+  };
+  const themed = applyTheme(cfg, "warm");
+  assert.equal(themed.theme, "warm");
+  assert.equal(themed.title[0]?.color, warm.primary);
+  assert.equal(themed.pages[0]?.color, warm.text);
+  assert.deepEqual(themed.shapes[0], { ...cfg.shapes[0], fill: warm.accent });
+  assert.deepEqual(themed.backgrounds.default, { type: "linear", color: warm.background, colors: [warm.primary, "#fff"] });
+  // 主题表与字体不做替换
+  assert.equal(themed.themes, cfg.themes);
+  assert.equal(themed.fonts, cfg.fonts);
+});
+
+test("applyTheme falls back to the configured theme and rejects unknown names", () => {
+  assert.equal(applyTheme(config).title[0]?.color, config.themes[config.theme].primary);
+  assert.throws(() => applyTheme(config, "missing"), /Unknown theme: missing/);
+});
+
+test("a page spec's background names a template image and is not a color", () => {
+  const themed = applyTheme({
+    ...config,
+    layout: [
+      { kind: "text", background: "text", elements: [{ type: "text", x: 0, y: 0, fontSize: 30, fontFamily: "x", textAlign: "left", color: "muted" }] },
+      { kind: "ending", background: { type: "solid", color: "background" }, elements: [] },
+    ],
+  }, "warm");
+  assert.equal(themed.layout?.[0].background, "text");
+  assert.equal(themed.layout?.[0].elements[0].type === "text" && themed.layout[0].elements[0].color, warm.muted);
+  assert.deepEqual(themed.layout?.[1].background, { type: "solid", color: warm.background });
+});
+
+test("mergeThemes fills missing roles from the default theme", () => {
+  const themes = structuredClone(config.themes);
+  mergeThemes(themes, { mint: { accent: "#3eb489" }, warm: { text: "#000" } });
+  assert.deepEqual(themes.mint, { ...config.themes.default, accent: "#3eb489" });
+  assert.deepEqual(themes.warm, { ...warm, text: "#000" });
+});